@@ -2,12 +2,46 @@ import type {
 	IDataObject,
 	IExecuteFunctions,
 	IHttpRequestMethods,
-	IHttpRequestOptions,
+	ILoadOptionsFunctions,
 	INodeExecutionData,
+	INodeParameters,
+	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
+	ResourceMapperFields,
 } from 'n8n-workflow';
-import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+import { NodeApiError, NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
+
+import type {
+	CronoRequestOptions,
+	ExternalPropertyCache,
+	PaginationStyle,
+} from './GenericFunctions';
+import {
+	DEFAULT_REQUEST_OPTIONS,
+	cronoApiRequest,
+	cronoApiRequestAllItems,
+	createRateLimiter,
+	getCachedExternalProperties,
+	getExternalProperties,
+	getExternalPropertyFieldType,
+	getExternalPropertyId,
+	getExternalPropertyName,
+	getExternalPropertyOptions,
+	getPipelines,
+	getPipelineStages,
+	getPipelineValue,
+	getRecordValue,
+	getResponseRecord,
+	getResponseRecords,
+	getStageLabel,
+	getStageValue,
+	runConcurrently,
+	IMPORT_FINISHED_STATUSES,
+	waitForImport,
+} from './GenericFunctions';
+import { excelSerialToDate, parseSpreadsheet } from './SpreadsheetFunctions';
+import { htmlToText, markdownToHtml, textToHtml } from './TextFunctions';
 
 type CronoResource =
 	| 'company'
@@ -23,6 +57,12 @@ type CronoResource =
 	| 'user'
 	| 'import';
 
+const EXTERNAL_PROPERTY_TABLE_TYPES: Partial<Record<CronoResource, string>> = {
+	company: 'Account',
+	contact: 'Prospect',
+	deal: 'Opportunity',
+};
+
 function getJsonParameter(
 	executeFunctions: IExecuteFunctions,
 	parameterName: string,
@@ -80,6 +120,24 @@ function getAdditionalFields(
 	return additional;
 }
 
+function getExternalValues(
+	executeFunctions: IExecuteFunctions,
+	jsonParameterName: string,
+	mapperParameterName: string,
+	itemIndex: number,
+): IDataObject {
+	const externalValues = getJsonParameter(executeFunctions, jsonParameterName, itemIndex, {});
+	const mapper = executeFunctions.getNodeParameter(mapperParameterName, itemIndex, {}) as {
+		value?: IDataObject | null;
+	};
+
+	for (const [propertyId, value] of Object.entries(mapper.value ?? {})) {
+		addIfNotEmpty(externalValues, propertyId, value);
+	}
+
+	return externalValues;
+}
+
 function parseCsv(value?: string): string[] {
 	if (!value) {
 		return [];
@@ -91,111 +149,1482 @@ function parseCsv(value?: string): string[] {
 		.filter((item) => item.length > 0);
 }
 
-async function cronoApiRequest(
+async function translateExternalPropertyKeys(
 	this: IExecuteFunctions,
-	method: IHttpRequestMethods,
-	endpoint: string,
-	qs: IDataObject = {},
-	body: IDataObject | undefined = undefined,
+	cache: ExternalPropertyCache,
+	basePath: string,
+	tableType: string,
+	values: unknown,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
+) {
+	if (!values || typeof values !== 'object' || Array.isArray(values)) {
+		return;
+	}
+
+	const entries = values as IDataObject;
+	const names = Object.keys(entries).filter((key) => !/^\d+$/.test(key));
+	if (!names.length) {
+		return;
+	}
+
+	const properties = await getCachedExternalProperties.call(
+		this,
+		cache,
+		basePath,
+		tableType,
+		requestOptions,
+	);
+	for (const name of names) {
+		const property = properties.find(
+			(entry) => getExternalPropertyName(entry).trim().toLowerCase() === name.trim().toLowerCase(),
+		);
+		if (!property) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Unknown ${tableType} external property "${name}"`,
+				{
+					itemIndex,
+					description: `Valid properties: ${properties.map(getExternalPropertyName).join(', ')}`,
+				},
+			);
+		}
+		const value = entries[name];
+		delete entries[name];
+		entries[getExternalPropertyId(property)] = value;
+	}
+}
+
+async function translateExternalPropertyNames(
+	this: IExecuteFunctions,
+	cache: ExternalPropertyCache,
+	basePath: string,
+	resource: CronoResource,
+	body: IDataObject | undefined,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
 ) {
-	const credentials = await this.getCredentials('cronoPublicApi');
-	const baseUrl = (credentials.baseUrl as string) || 'https://ext.crono.one';
+	const tableType = EXTERNAL_PROPERTY_TABLE_TYPES[resource];
+	if (!tableType || !body) {
+		return;
+	}
+
+	const translate = async (table: string, values: unknown) =>
+		await translateExternalPropertyKeys.call(
+			this,
+			cache,
+			basePath,
+			table,
+			values,
+			itemIndex,
+			requestOptions,
+		);
+
+	const data = body.data as IDataObject | undefined;
+	if (data && typeof data === 'object') {
+		await translate(data.CreateAsLead ? 'Lead' : tableType, data.ExternalValues);
+		for (const account of (data.Accounts as IDataObject[] | undefined) ?? []) {
+			await translate('Account', account.ExternalValues);
+		}
+		for (const prospect of (data.Prospects as IDataObject[] | undefined) ?? []) {
+			await translate('Prospect', prospect.ExternalValues);
+			await translate('Account', prospect.AccountExternalValues);
+		}
+		for (const opportunity of (data.Opportunities as IDataObject[] | undefined) ?? []) {
+			await translate('Opportunity', opportunity.ExternalValues);
+		}
+	}
+
+	await translate(tableType, body.ExternalProperties);
+	await translate(tableType, body.ExternalPropertyNumericFilters);
+	await translate('Account', body.AccountExternalProperties);
+	await translate('Account', body.AccountExternalPropertyNumericFilters);
+}
+
+async function getExternalPropertyNames(
+	this: IExecuteFunctions,
+	cache: ExternalPropertyCache,
+	basePath: string,
+	requestOptions: CronoRequestOptions,
+): Promise<Map<string, string>> {
+	const names = new Map<string, string>();
+	for (const tableType of ['Account', 'Prospect', 'Lead', 'Opportunity']) {
+		const properties = await getCachedExternalProperties.call(
+			this,
+			cache,
+			basePath,
+			tableType,
+			requestOptions,
+		);
+		for (const property of properties) {
+			names.set(getExternalPropertyId(property), getExternalPropertyName(property));
+		}
+	}
+	return names;
+}
+
+function getExternalValueEntryId(entry: unknown): unknown {
+	return entry && typeof entry === 'object'
+		? getRecordValue(entry as IDataObject, ['externalPropertyId', 'propertyId'])
+		: undefined;
+}
+
+function renameExternalValues(value: unknown, names: Map<string, string>): unknown {
+	if (Array.isArray(value)) {
+		return value.map((entry) => renameExternalValues(entry, names));
+	}
+
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	const renamed: IDataObject = {};
+	for (const [key, entry] of Object.entries(value as IDataObject)) {
+		const isExternalValues = /externalvalues$/i.test(key);
+		if (isExternalValues && Array.isArray(entry) && entry.every(getExternalValueEntryId)) {
+			const byName: IDataObject = {};
+			for (const item of entry as IDataObject[]) {
+				const id = String(getExternalValueEntryId(item));
+				byName[names.get(id) ?? id] = item.value ?? item.Value ?? null;
+			}
+			renamed[key] = byName;
+		} else if (isExternalValues && entry && typeof entry === 'object' && !Array.isArray(entry)) {
+			const byName: IDataObject = {};
+			for (const [propertyId, propertyValue] of Object.entries(entry as IDataObject)) {
+				byName[names.get(propertyId) ?? propertyId] = propertyValue;
+			}
+			renamed[key] = byName;
+		} else {
+			renamed[key] = renameExternalValues(entry, names) as IDataObject[keyof IDataObject];
+		}
+	}
+	return renamed;
+}
+
+function getPaginationStyle(
+	resource: CronoResource,
+	operation: string,
+): PaginationStyle | undefined {
+	if (operation === 'getAll' || operation === 'getMembers') {
+		return resource === 'pipeline' ? undefined : 'query';
+	}
+
+	if (operation === 'search' || operation === 'searchDetails') {
+		if (resource === 'externalProperty') {
+			return undefined;
+		}
+		return resource === 'task' ? 'flat' : 'body';
+	}
+
+	return undefined;
+}
+
+function normalizeUrl(value: unknown): string {
+	return String(value ?? '')
+		.trim()
+		.toLowerCase()
+		.replace(/^[a-z]+:\/\//, '')
+		.replace(/^www\./, '')
+		.replace(/[?#].*$/, '')
+		.replace(/\/+$/, '');
+}
+
+function normalizeDomain(value: unknown): string {
+	return normalizeUrl(value)
+		.replace(/[/:].*$/, '')
+		.replace(/\.$/, '');
+}
+
+function normalizeText(value: unknown): string {
+	return String(value ?? '')
+		.trim()
+		.toLowerCase()
+		.replace(/\s+/g, ' ');
+}
+
+type UpsertKey = {
+	key: string;
+	field: string;
+	recordFields: string[];
+	normalize: (value: unknown) => string;
+	// Search filter taking the key's value, or a `Has…` filter that skips records without it.
+	searchField?: string;
+	presenceFilter?: string;
+};
+
+const COMPANY_UPSERT_KEYS: UpsertKey[] = [
+	{
+		key: 'linkedinNumericId',
+		field: 'LinkedinNumericId',
+		recordFields: ['linkedinNumericId'],
+		normalize: normalizeText,
+	},
+	{
+		key: 'linkedin',
+		field: 'Linkedin',
+		recordFields: ['linkedin'],
+		normalize: normalizeUrl,
+		presenceFilter: 'HasLinkedin',
+	},
+	{
+		key: 'website',
+		field: 'Website',
+		recordFields: ['website'],
+		normalize: normalizeDomain,
+		presenceFilter: 'HasWebsite',
+	},
+	{
+		key: 'name',
+		field: 'Name',
+		recordFields: ['name'],
+		normalize: normalizeText,
+		searchField: 'Name',
+	},
+];
+
+const COMPANY_CREATE_ONLY_FIELDS = ['CreateInCrm', 'ListId'];
+
+const CONTACT_UPSERT_KEYS: UpsertKey[] = [
+	{
+		key: 'email',
+		field: 'Email',
+		recordFields: ['email'],
+		normalize: normalizeText,
+		presenceFilter: 'HasEmail',
+	},
+	{
+		key: 'linkedin',
+		field: 'Linkedin',
+		recordFields: ['linkedin'],
+		normalize: normalizeUrl,
+		presenceFilter: 'HasLinkedin',
+	},
+	{
+		key: 'linkedinLeadId',
+		field: 'LinkedinLeadId',
+		recordFields: ['linkedinLeadId'],
+		normalize: normalizeText,
+	},
+];
+
+const CONTACT_CREATE_ONLY_FIELDS = [
+	'CreateAsLead',
+	'CreateInCrm',
+	'ListId',
+	'StrategyId',
+	'GenerateAiVariables',
+	'Company',
+	'CompanyAnnualRevenue',
+	'CompanyCountry',
+	'CompanyIndustry',
+	'CompanyLinkedin',
+	'CompanyLinkedinNumericId',
+	'CompanyNumberOfEmployees',
+	'CompanyWebsite',
+];
+
+function getCreatedTime(record: IDataObject): number {
+	const created = Date.parse(String(getRecordValue(record, ['createdDate', 'createdAt']) ?? ''));
+	return Number.isNaN(created) ? 0 : created;
+}
+
+// Candidates for one match key and search, indexed by normalized value. Searches are read
+// once per execution and shared by every item.
+type UpsertIndexEntry = {
+	endpoint: string;
+	key: string;
+	filters: IDataObject;
+	index: Promise<Map<string, IDataObject[]>>;
+};
+
+type UpsertCache = Map<string, UpsertIndexEntry>;
+
+async function getUpsertIndex(
+	this: IExecuteFunctions,
+	cache: UpsertCache,
+	endpoint: string,
+	upsertKey: UpsertKey,
+	searchBody: IDataObject,
+	filters: IDataObject,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
+): Promise<Map<string, IDataObject[]>> {
+	const cacheKey = JSON.stringify([endpoint, upsertKey.key, searchBody]);
+	const cached = cache.get(cacheKey);
+	if (cached) {
+		return await cached.index;
+	}
+
+	const load = async () => {
+		const response = await cronoApiRequestAllItems.call(
+			this,
+			'POST',
+			`${endpoint}/search`,
+			{},
+			searchBody,
+			'body',
+			itemIndex,
+			requestOptions,
+		);
+		const candidates = getResponseRecords(response);
+		if (!candidates) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Could not read the search results used to match on ${upsertKey.field}`,
+				{ itemIndex, description: 'No record was created or updated.' },
+			);
+		}
+		if (
+			candidates.length &&
+			candidates.every((record) => getRecordValue(record, upsertKey.recordFields) === undefined)
+		) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Search results do not include ${upsertKey.field}, so existing records cannot be matched on it`,
+				{ itemIndex, description: 'Remove this field from "Match By" and try again.' },
+			);
+		}
 
-	const options: IHttpRequestOptions = {
-		method,
-		url: `${baseUrl}${endpoint}`,
-		json: true,
+		const index = new Map<string, IDataObject[]>();
+		for (const record of candidates) {
+			const value = upsertKey.normalize(getRecordValue(record, upsertKey.recordFields));
+			if (value) {
+				index.set(value, [...(index.get(value) ?? []), record]);
+			}
+		}
+		return index;
 	};
 
-	if (qs && Object.keys(qs).length) {
-		options.qs = qs;
+	const entry: UpsertIndexEntry = { endpoint, key: upsertKey.key, filters, index: load() };
+	cache.set(cacheKey, entry);
+	try {
+		return await entry.index;
+	} catch (error) {
+		cache.delete(cacheKey);
+		throw error;
 	}
+}
+
+// Checks each selected key in priority order and returns the records of the first key that
+// matches. The search only narrows candidates, so the normalized value and any extra filters
+// are verified here.
+async function findUpsertMatches(
+	this: IExecuteFunctions,
+	cache: UpsertCache,
+	endpoint: string,
+	keys: UpsertKey[],
+	matchBy: string[],
+	data: IDataObject,
+	filters: IDataObject,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
+): Promise<IDataObject[]> {
+	for (const upsertKey of keys) {
+		const value = upsertKey.normalize(data[upsertKey.field]);
+		if (!matchBy.includes(upsertKey.key) || !value) {
+			continue;
+		}
 
-	if (body && Object.keys(body).length) {
-		options.body = body;
+		const searchBody: IDataObject = { ...filters };
+		if (upsertKey.searchField) {
+			searchBody[upsertKey.searchField] = data[upsertKey.field];
+		}
+		if (upsertKey.presenceFilter) {
+			searchBody[upsertKey.presenceFilter] = true;
+		}
+		const index = await getUpsertIndex.call(
+			this,
+			cache,
+			endpoint,
+			upsertKey,
+			searchBody,
+			filters,
+			itemIndex,
+			requestOptions,
+		);
+		const matches = (index.get(value) ?? []).filter((record) =>
+			Object.entries(filters).every(([field, expected]) => {
+				const actual = getRecordValue(record, [field]);
+				return actual === undefined || String(actual) === String(expected);
+			}),
+		);
+		if (matches.length) {
+			return matches;
+		}
 	}
 
-	return this.helpers.httpRequestWithAuthentication.call(this, 'cronoPublicApi', options);
+	return [];
 }
 
-export class CronoPublicApi implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Crono',
-		name: 'cronoPublicApi',
-		icon: 'file:/crono.svg',
-		group: ['input'],
-		version: 1,
-		description: 'Consume the Crono Public API',
-		defaults: {
-			name: 'Crono Public API',
+// Adds a record created by an upsert to the loaded indexes, so later items with the same
+// values update it instead of creating a duplicate.
+async function rememberUpsertRecord(
+	cache: UpsertCache,
+	endpoint: string,
+	keys: UpsertKey[],
+	data: IDataObject,
+	record: IDataObject,
+) {
+	for (const entry of cache.values()) {
+		const upsertKey = keys.find((key) => key.key === entry.key);
+		const value = upsertKey?.normalize(data[upsertKey.field]);
+		if (
+			!value ||
+			entry.endpoint !== endpoint ||
+			!Object.entries(entry.filters).every(
+				([field, expected]) => String(data[field]) === String(expected),
+			)
+		) {
+			continue;
+		}
+		const index = await entry.index;
+		index.set(value, [...(index.get(value) ?? []), record]);
+	}
+}
+
+function findPipeline(pipelines: IDataObject[], value: string): IDataObject | undefined {
+	return pipelines.find(
+		(pipeline) =>
+			getPipelineValue(pipeline) === value || getRecordValue(pipeline, ['name', 'label']) === value,
+	);
+}
+
+function assertStageInPipeline(
+	executeFunctions: IExecuteFunctions,
+	pipelines: IDataObject[],
+	pipelineValue: string,
+	stageValue: string,
+	itemIndex: number,
+) {
+	const pipeline = findPipeline(pipelines, pipelineValue);
+	if (!pipeline) {
+		const validPipelines = pipelines.map((entry) => getPipelineValue(entry)).join(', ');
+		throw new NodeOperationError(
+			executeFunctions.getNode(),
+			`Pipeline "${pipelineValue}" does not exist. Valid pipelines: ${validPipelines || 'none'}.`,
+			{ itemIndex },
+		);
+	}
+
+	const stages = getPipelineStages(pipeline);
+	const matches = stages.some(
+		(stage) => getStageValue(stage) === stageValue || getStageLabel(stage) === stageValue,
+	);
+	if (!matches) {
+		const validStages = stages.map((stage) => getStageLabel(stage)).join(', ');
+		throw new NodeOperationError(
+			executeFunctions.getNode(),
+			`Stage "${stageValue}" does not belong to pipeline "${pipelineValue}". Valid stages: ${validStages || 'none'}.`,
+			{ itemIndex },
+		);
+	}
+}
+
+function getAiExternalPropertyIds(value: string) {
+	return parseCsv(value).map((id) => parseInt(id, 10));
+}
+
+function getCompanyImportOptions(executeFunctions: IExecuteFunctions, itemIndex: number) {
+	const data: IDataObject = {};
+	addIfNotEmpty(
+		data,
+		'ImportType',
+		executeFunctions.getNodeParameter('companyImportType', itemIndex, ''),
+	);
+	addIfNotEmpty(
+		data,
+		'FileName',
+		executeFunctions.getNodeParameter('companyImportFileName', itemIndex, ''),
+	);
+	if (executeFunctions.getNodeParameter('companyImportEnrichCompany', itemIndex, false)) {
+		data.EnrichCompany = true;
+	}
+	const aiExternalPropertyIds = getAiExternalPropertyIds(
+		executeFunctions.getNodeParameter(
+			'companyImportAiExternalPropertyIds',
+			itemIndex,
+			'',
+		) as string,
+	);
+	if (aiExternalPropertyIds.length) {
+		data.AiExternalPropertiesIdsToGenerate = aiExternalPropertyIds;
+	}
+	Object.assign(data, getAdditionalFields(executeFunctions, 'dataAdditionalFields', itemIndex));
+	return data;
+}
+
+function getContactImportOptions(executeFunctions: IExecuteFunctions, itemIndex: number) {
+	const data: IDataObject = {};
+	addIfNotEmpty(
+		data,
+		'ImportType',
+		executeFunctions.getNodeParameter('contactImportType', itemIndex, ''),
+	);
+	addIfNotEmpty(
+		data,
+		'FileName',
+		executeFunctions.getNodeParameter('contactImportFileName', itemIndex, ''),
+	);
+	for (const [parameterName, field] of [
+		['contactImportFindEmail', 'FindEmail'],
+		['contactImportFindLinkedin', 'FindLinkedin'],
+		['contactImportFindPhone', 'FindPhone'],
+		['contactImportVerifyEmail', 'VerifyEmail'],
+	]) {
+		if (executeFunctions.getNodeParameter(parameterName, itemIndex, false)) {
+			data[field] = true;
+		}
+	}
+	const aiExternalPropertyIds = getAiExternalPropertyIds(
+		executeFunctions.getNodeParameter(
+			'contactImportAiExternalPropertyIds',
+			itemIndex,
+			'',
+		) as string,
+	);
+	if (aiExternalPropertyIds.length) {
+		data.AiExternalPropertiesIdsToGenerate = aiExternalPropertyIds;
+	}
+	Object.assign(data, getAdditionalFields(executeFunctions, 'dataAdditionalFields', itemIndex));
+	return data;
+}
+
+function getDealImportOptions(executeFunctions: IExecuteFunctions, itemIndex: number) {
+	const data: IDataObject = {};
+	addIfNotEmpty(
+		data,
+		'ImportType',
+		executeFunctions.getNodeParameter('dealImportType', itemIndex, ''),
+	);
+	addIfNotEmpty(
+		data,
+		'FileName',
+		executeFunctions.getNodeParameter('dealImportFileName', itemIndex, ''),
+	);
+	Object.assign(data, getAdditionalFields(executeFunctions, 'dataAdditionalFields', itemIndex));
+	return data;
+}
+
+const TASK_TYPE_OPTIONS: INodePropertyOptions[] = [
+	{ name: 'Call', value: 'Call' },
+	{ name: 'Email', value: 'Email' },
+	{ name: 'Generic', value: 'Generic' },
+	{ name: 'InMail', value: 'InMail' },
+	{ name: 'LinkedIn', value: 'Linkedin' },
+];
+
+const TASK_SUBTYPE_OPTIONS: INodePropertyOptions[] = [
+	{ name: 'LinkedIn Invitation', value: 'LinkedinInvitation' },
+	{ name: 'LinkedIn Like Last Post', value: 'LinkedinLikeLastPost' },
+	{ name: 'LinkedIn Message', value: 'LinkedinMessage' },
+	{ name: 'LinkedIn Profile View', value: 'LinkedinProfileView' },
+	{ name: 'LinkedIn Voice Note', value: 'LinkedinVoiceNote' },
+];
+
+const ACTIVITY_TYPE_OPTIONS = TASK_TYPE_OPTIONS.filter(({ value }) => value !== 'Generic');
+
+const RESCHEDULE_UNITS: Record<string, number> = {
+	minutes: 60 * 1000,
+	hours: 60 * 60 * 1000,
+	days: 24 * 60 * 60 * 1000,
+	weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+type ImportField = INodePropertyOptions & { aliases?: string[] };
+
+const ACCOUNT_IMPORT_FIELDS: ImportField[] = [
+	{ name: 'Annual Revenue', value: 'AnnualRevenue', aliases: ['revenue'] },
+	{ name: 'Country', value: 'Country' },
+	{ name: 'External Values', value: 'ExternalValues' },
+	{ name: 'Industry', value: 'Industry' },
+	{
+		name: 'LinkedIn',
+		value: 'Linkedin',
+		aliases: ['linkedinurl', 'companylinkedin', 'companylinkedinurl'],
+	},
+	{ name: 'List ID', value: 'ListId' },
+	{ name: 'Name', value: 'Name', aliases: ['company', 'companyname', 'accountname'] },
+	{
+		name: 'Number Of Employees',
+		value: 'NumberOfEmployees',
+		aliases: ['employees', 'companysize', 'headcount'],
+	},
+	{ name: 'Owner', value: 'Owner', aliases: ['owneremail'] },
+	{ name: 'Phone', value: 'Phone', aliases: ['phonenumber', 'companyphone'] },
+	{
+		name: 'Website',
+		value: 'Website',
+		aliases: ['domain', 'url', 'companydomain', 'companywebsite'],
+	},
+];
+
+const PROSPECT_IMPORT_FIELDS: ImportField[] = [
+	{ name: 'Account External Values', value: 'AccountExternalValues' },
+	{ name: 'Company', value: 'Company', aliases: ['companyname', 'account', 'accountname'] },
+	{ name: 'Company Annual Revenue', value: 'CompanyAnnualRevenue' },
+	{ name: 'Company Country', value: 'CompanyCountry' },
+	{ name: 'Company Industry', value: 'CompanyIndustry', aliases: ['industry'] },
+	{ name: 'Company LinkedIn', value: 'CompanyLinkedin', aliases: ['companylinkedinurl'] },
+	{
+		name: 'Company Number Of Employees',
+		value: 'CompanyNumberOfEmployees',
+		aliases: ['employees', 'companysize'],
+	},
+	{
+		name: 'Company Website',
+		value: 'CompanyWebsite',
+		aliases: ['companydomain', 'website', 'domain'],
+	},
+	{ name: 'Email', value: 'Email', aliases: ['emailaddress', 'workemail'] },
+	{ name: 'External Values', value: 'ExternalValues' },
+	{ name: 'First Name', value: 'FirstName' },
+	{ name: 'Last Name', value: 'LastName' },
+	{
+		name: 'LinkedIn',
+		value: 'Linkedin',
+		aliases: ['linkedinurl', 'linkedinprofile', 'personlinkedinurl'],
+	},
+	{ name: 'List ID', value: 'ListId' },
+	{ name: 'Location', value: 'Location', aliases: ['city'] },
+	{ name: 'Mobile Phone', value: 'MobilePhone', aliases: ['mobile', 'mobilenumber'] },
+	{ name: 'Owner', value: 'Owner', aliases: ['owneremail'] },
+	{ name: 'Phone', value: 'Phone', aliases: ['phonenumber'] },
+	{ name: 'Sales Navigator URL', value: 'SalesNavigatorUrl' },
+	{ name: 'Strategy ID', value: 'StrategyId' },
+	{ name: 'Title', value: 'Title', aliases: ['jobtitle'] },
+];
+
+const OPPORTUNITY_IMPORT_FIELDS: ImportField[] = [
+	{ name: 'Account ID', value: 'AccountId', aliases: ['accountobjectid', 'companyid'] },
+	{ name: 'Account LinkedIn', value: 'AccountLinkedin', aliases: ['companylinkedin'] },
+	{ name: 'Account Name', value: 'AccountName', aliases: ['account', 'company', 'companyname'] },
+	{
+		name: 'Account Website',
+		value: 'AccountWebsite',
+		aliases: ['website', 'domain', 'companywebsite', 'companydomain'],
+	},
+	{ name: 'Amount', value: 'Amount', aliases: ['value', 'dealamount', 'dealvalue'] },
+	{ name: 'Close Date', value: 'CloseDate', aliases: ['expectedclosedate', 'closingdate'] },
+	{ name: 'Description', value: 'Description' },
+	{ name: 'External Values', value: 'ExternalValues' },
+	{ name: 'Name', value: 'Name', aliases: ['dealname', 'opportunityname', 'deal'] },
+	{ name: 'Owner', value: 'Owner', aliases: ['owneremail', 'dealowner'] },
+	{ name: 'Pipeline', value: 'Pipeline', aliases: ['dealpipeline'] },
+	{ name: 'Stage', value: 'Stage', aliases: ['dealstage'] },
+];
+
+const IMPORT_FIELDS: Partial<Record<CronoResource, ImportField[]>> = {
+	company: ACCOUNT_IMPORT_FIELDS,
+	contact: PROSPECT_IMPORT_FIELDS,
+	deal: OPPORTUNITY_IMPORT_FIELDS,
+};
+
+const IMPORT_ROWS_KEYS: Partial<Record<CronoResource, string>> = {
+	company: 'Accounts',
+	contact: 'Prospects',
+	deal: 'Opportunities',
+};
+
+const IMPORT_OPTIONS: Partial<
+	Record<CronoResource, (executeFunctions: IExecuteFunctions, itemIndex: number) => IDataObject>
+> = {
+	company: getCompanyImportOptions,
+	contact: getContactImportOptions,
+	deal: getDealImportOptions,
+};
+
+const NUMERIC_IMPORT_FIELDS = [
+	'Amount',
+	'CompanyNumberOfEmployees',
+	'ListId',
+	'NumberOfEmployees',
+	'StrategyId',
+];
+
+const DATE_IMPORT_FIELDS = ['CloseDate'];
+
+const MAX_IMPORT_ROWS = 1000;
+
+type ImportColumn = {
+	column?: string;
+	field?: string;
+};
+
+function normalizeHeader(value: string) {
+	return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function findImportField(fields: ImportField[], header: string) {
+	const normalized = normalizeHeader(header);
+	return (
+		fields.find((field) => normalizeHeader(String(field.value)) === normalized) ??
+		fields.find((field) => field.aliases?.includes(normalized))
+	);
+}
+
+function getImportValue(field: string, value: unknown): unknown {
+	if (value === undefined || value === null || value === '') {
+		return undefined;
+	}
+
+	if (NUMERIC_IMPORT_FIELDS.includes(field)) {
+		const number = Number(value);
+		return Number.isNaN(number) ? undefined : number;
+	}
+
+	// XLSX date cells arrive as day serials; 2958465 is 9999-12-31, so larger numbers are not dates.
+	if (
+		DATE_IMPORT_FIELDS.includes(field) &&
+		/^\d+(\.\d+)?$/.test(String(value).trim()) &&
+		Number(value) <= 2958465
+	) {
+		return excelSerialToDate(Number(value));
+	}
+
+	if (/externalvalues$/i.test(field) && typeof value === 'string') {
+		try {
+			return JSON.parse(value);
+		} catch {
+			return undefined;
+		}
+	}
+
+	return typeof value === 'object' ? value : String(value).trim() || undefined;
+}
+
+// Maps one source row onto import fields: matching column names first, then the explicit
+// column mapping, which wins.
+function getImportRow(
+	source: IDataObject,
+	fields: ImportField[],
+	columns: ImportColumn[],
+	autoMap: boolean,
+): IDataObject {
+	const row: IDataObject = {};
+
+	if (autoMap) {
+		for (const [header, value] of Object.entries(source)) {
+			const field = findImportField(fields, header);
+			if (field) {
+				addIfNotEmpty(row, String(field.value), getImportValue(String(field.value), value));
+			}
+		}
+	}
+
+	for (const { column, field } of columns) {
+		if (column && field) {
+			addIfNotEmpty(row, field, getImportValue(field, source[column]));
+		}
+	}
+
+	return row;
+}
+
+function getRequestOptions(
+	executeFunctions: IExecuteFunctions,
+	itemIndex: number,
+	throttle: () => Promise<void>,
+	onAttempt?: () => void,
+): CronoRequestOptions {
+	const options = executeFunctions.getNodeParameter('requestOptions', itemIndex, {}) as IDataObject;
+	return {
+		maxRetries: (options.maxRetries as number) ?? DEFAULT_REQUEST_OPTIONS.maxRetries,
+		retryDelay: (options.retryDelay as number) ?? DEFAULT_REQUEST_OPTIONS.retryDelay,
+		maxRetryDelay: (options.maxRetryDelay as number) ?? DEFAULT_REQUEST_OPTIONS.maxRetryDelay,
+		maxRetryWait: (options.maxRetryWait as number) ?? DEFAULT_REQUEST_OPTIONS.maxRetryWait,
+		retryNonIdempotent: options.retryNonIdempotent === true,
+		onAttempt,
+		throttle,
+	};
+}
+
+const BATCH_GET_ENDPOINTS: Partial<Record<CronoResource, string>> = {
+	contact: 'Prospects',
+	deal: 'Opportunities',
+	note: 'Notes',
+};
+
+const BATCH_GET_SIZE = 100;
+
+function getErrorItem(
+	error: Error,
+	itemIndex: number,
+	attempts: number,
+	request: IDataObject,
+): INodeExecutionData {
+	return {
+		json: {
+			error: error.message,
+			...((error as NodeApiError).description
+				? { description: (error as NodeApiError).description }
+				: {}),
+			itemIndex,
+			attempts,
+			request,
 		},
-		inputs: [NodeConnectionTypes.Main],
-		outputs: [NodeConnectionTypes.Main],
-		usableAsTool: true,
-		credentials: [
-			{
-				name: 'cronoPublicApi',
-				required: true,
-			},
-		],
-		properties: [
-			{
-				displayName: 'API Version',
-				name: 'apiVersion',
-				type: 'string',
-				default: '1',
-				description: 'Crono Public API version number',
-			},
-			{
-				displayName: 'Resource',
-				name: 'resource',
-				type: 'options',
-				noDataExpression: true,
-				options: [
-					{ name: 'Activity', value: 'activity' },
-					{ name: 'Company', value: 'company' },
-					{ name: 'Contact', value: 'contact' },
-					{ name: 'Deal', value: 'deal' },
-					{ name: 'External Property', value: 'externalProperty' },
-					{ name: 'Import', value: 'import' },
-					{ name: 'List', value: 'list' },
-					{ name: 'Note', value: 'note' },
-					{ name: 'Pipeline', value: 'pipeline' },
-					{ name: 'Strategy', value: 'strategy' },
-					{ name: 'Task', value: 'task' },
-					{ name: 'User', value: 'user' },
-				],
-				default: 'company',
-			},
-			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: { resource: ['company'] },
-				},
-				options: [
-					{ name: 'Create', value: 'create', action: 'Create a company' },
-					{ name: 'Get', value: 'get', action: 'Get a company' },
-					{ name: 'Get Many', value: 'getAll', action: 'Get many companies' },
-					{ name: 'Import', value: 'import', action: 'Import companies' },
-					{ name: 'Search', value: 'search', action: 'Search companies' },
-					{ name: 'Update', value: 'update', action: 'Update a company' },
-				],
-				default: 'getAll',
-			},
-			{
-				displayName: 'Operation',
-				name: 'operation',
-				type: 'options',
-				noDataExpression: true,
-				displayOptions: {
-					show: { resource: ['contact'] },
-				},
-				options: [
-					{ name: 'Create', value: 'create', action: 'Create a contact' },
-					{ name: 'Get', value: 'get', action: 'Get a contact' },
+		pairedItem: { item: itemIndex },
+	};
+}
+
+type BatchedGetResult = {
+	record?: IDataObject;
+	error?: Error;
+	attempts: number;
+	request: IDataObject;
+};
+
+// Items are grouped by their include options, which the search takes as `Includes`, and each
+// group is fetched in chunks. Every item gets the attempts and request of its chunk.
+async function executeBatchedGet(
+	this: IExecuteFunctions,
+	resource: CronoResource,
+	throttle: () => Promise<void>,
+): Promise<INodeExecutionData[]> {
+	const apiVersion = this.getNodeParameter('apiVersion', 0, '1') as string;
+	const basePath = `/api/v${apiVersion}`;
+	const endpoint = `${basePath}/${BATCH_GET_ENDPOINTS[resource]}/search`;
+	const includeAttempts = this.getNodeParameter(
+		'requestOptions.includeAttempts',
+		0,
+		false,
+	) as boolean;
+	const items = this.getInputData().map((_, itemIndex) => {
+		const objectId = String(this.getNodeParameter('objectId', itemIndex)).trim();
+		const includes = getJsonParameter(this, 'includeOptions', itemIndex, {});
+		if (!objectId) {
+			const error = new NodeOperationError(this.getNode(), 'Object ID is required', { itemIndex });
+			if (!this.continueOnFail()) {
+				throw error;
+			}
+			return { objectId, includes, group: '', error };
+		}
+		return { objectId, includes, group: JSON.stringify(includes), error: undefined };
+	});
+
+	const groups = new Map<string, { includes: IDataObject; objectIds: string[] }>();
+	for (const { objectId, includes, group, error } of items) {
+		if (error) {
+			continue;
+		}
+		const entry = groups.get(group) ?? { includes, objectIds: [] };
+		if (!entry.objectIds.includes(objectId)) {
+			entry.objectIds.push(objectId);
+		}
+		groups.set(group, entry);
+	}
+
+	const results = new Map<string, BatchedGetResult>();
+	for (const [group, { includes, objectIds }] of groups) {
+		for (let start = 0; start < objectIds.length; start += BATCH_GET_SIZE) {
+			const chunk = objectIds.slice(start, start + BATCH_GET_SIZE);
+			const body: IDataObject = {
+				ObjectIds: chunk,
+				Pagination: { Limit: chunk.length, Offset: 0 },
+				...(Object.keys(includes).length ? { Includes: includes } : {}),
+			};
+			const request = { method: 'POST', endpoint, qs: {}, body };
+			let attempts = 0;
+			const requestOptions = getRequestOptions(this, 0, throttle, () => attempts++);
+			try {
+				const response = await cronoApiRequest.call(
+					this,
+					'POST',
+					endpoint,
+					{},
+					body,
+					requestOptions,
+				);
+				const records = new Map<string, IDataObject>();
+				for (const record of getResponseRecords(response) ?? []) {
+					const objectId = getRecordValue(record, ['objectId', 'id']);
+					if (objectId !== undefined) {
+						records.set(String(objectId), record);
+					}
+				}
+				for (const objectId of chunk) {
+					results.set(`${group}:${objectId}`, {
+						record: records.get(objectId),
+						attempts,
+						request,
+					});
+				}
+			} catch (error) {
+				if (!this.continueOnFail()) {
+					if (error instanceof NodeApiError) {
+						error.context.itemIndex ??= items.findIndex(
+							(item) => item.group === group && item.objectId === chunk[0],
+						);
+					}
+					throw error;
+				}
+				for (const objectId of chunk) {
+					results.set(`${group}:${objectId}`, { error: error as Error, attempts, request });
+				}
+			}
+		}
+	}
+
+	const names = this.getNodeParameter('resolveExternalPropertyNames', 0, false)
+		? await getExternalPropertyNames.call(
+				this,
+				new Map(),
+				basePath,
+				getRequestOptions(this, 0, throttle),
+			)
+		: undefined;
+
+	return items.map(({ objectId, group, error: itemError }, itemIndex) => {
+		if (itemError) {
+			return getErrorItem(itemError, itemIndex, 0, {
+				method: 'POST',
+				endpoint,
+				qs: {},
+				body: null,
+			});
+		}
+
+		const { record, error, attempts, request } = results.get(
+			`${group}:${objectId}`,
+		) as BatchedGetResult;
+		if (error) {
+			return getErrorItem(error, itemIndex, attempts, request);
+		}
+
+		let json: IDataObject = { objectId, found: false };
+		if (record) {
+			json = names ? (renameExternalValues(record, names) as IDataObject) : record;
+			if (resource === 'note' && this.getNodeParameter('noteOutputPlainText', itemIndex, false)) {
+				json = convertNoteDescriptionsToText(json) as IDataObject;
+			}
+		}
+		return {
+			json: includeAttempts ? { ...json, attempts } : json,
+			pairedItem: { item: itemIndex },
+		};
+	});
+}
+
+function getImportCounts(record: IDataObject) {
+	const getCount = (fields: string[]) => {
+		const value = getRecordValue(record, fields);
+		if (Array.isArray(value)) {
+			return value.length;
+		}
+		return value === undefined ? undefined : Number(value);
+	};
+
+	return {
+		created: getCount(['createdCount', 'created', 'createdRows', 'numberOfCreated']),
+		updated: getCount(['updatedCount', 'updated', 'updatedRows', 'numberOfUpdated']),
+		failed: getCount(['failedCount', 'failed', 'failedRows', 'errorCount', 'numberOfErrors']),
+	};
+}
+
+function formatNoteDescription(value: string, format: string) {
+	if (format === 'markdown') {
+		return markdownToHtml(value);
+	}
+	if (format === 'text') {
+		return textToHtml(value);
+	}
+	return value;
+}
+
+function convertNoteDescriptionsToText(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map((entry) => convertNoteDescriptionsToText(entry));
+	}
+
+	if (!value || typeof value !== 'object') {
+		return value;
+	}
+
+	const result: IDataObject = {};
+	for (const [key, entry] of Object.entries(value as IDataObject)) {
+		result[key] =
+			key.toLowerCase() === 'description' && typeof entry === 'string'
+				? htmlToText(entry)
+				: (convertNoteDescriptionsToText(entry) as IDataObject);
+	}
+	return result;
+}
+
+const DELETE_ENDPOINTS: Partial<Record<CronoResource, string>> = {
+	company: 'Accounts',
+	contact: 'Prospects',
+	deal: 'Opportunities',
+	note: 'Notes',
+	task: 'Tasks',
+};
+
+// A dry run gets each record instead of deleting it, so the output lists what would be deleted.
+// With several IDs, a failure is reported on that ID's result so the other results are kept.
+async function deleteRecords(
+	this: IExecuteFunctions,
+	endpoint: string,
+	objectIds: string[],
+	dryRun: boolean,
+	requestOptions: CronoRequestOptions,
+): Promise<IDataObject[]> {
+	const results: IDataObject[] = [];
+	for (const objectId of objectIds) {
+		const recordEndpoint = `${endpoint}/${objectId}`;
+		try {
+			if (!dryRun) {
+				await cronoApiRequest.call(this, 'DELETE', recordEndpoint, {}, undefined, requestOptions);
+				results.push({ objectId, deleted: true });
+				continue;
+			}
+
+			const record = await cronoApiRequest.call(
+				this,
+				'GET',
+				recordEndpoint,
+				{},
+				undefined,
+				requestOptions,
+			);
+			results.push({ objectId, dryRun: true, found: true, record });
+		} catch (error) {
+			if (dryRun && (error as NodeApiError).httpCode === '404') {
+				results.push({ objectId, dryRun: true, found: false });
+			} else if (objectIds.length === 1) {
+				throw error;
+			} else {
+				results.push({
+					objectId,
+					...(dryRun ? { dryRun: true } : { deleted: false }),
+					error: (error as Error).message,
+				});
+			}
+		}
+	}
+	return results;
+}
+
+async function getTask(
+	this: IExecuteFunctions,
+	basePath: string,
+	taskId: string,
+	requestOptions: CronoRequestOptions,
+): Promise<IDataObject> {
+	const response = await cronoApiRequest.call(
+		this,
+		'GET',
+		`${basePath}/Tasks/${taskId}`,
+		{},
+		undefined,
+		requestOptions,
+	);
+	return getResponseRecord(response);
+}
+
+// Logs the outcome of a completed task as an activity on the task's prospect. The task is
+// read back when the completion response does not include it. The task is already completed
+// by then, so a failure is returned as `logError` instead of failing the item.
+async function logTaskOutcome(
+	this: IExecuteFunctions,
+	basePath: string,
+	taskId: string,
+	response: unknown,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
+): Promise<IDataObject> {
+	try {
+		let task = getResponseRecord(response);
+		if (getRecordValue(task, ['prospectId']) === undefined) {
+			task = await getTask.call(this, basePath, taskId, requestOptions);
+		}
+
+		const prospectId = getRecordValue(task, ['prospectId']);
+		if (prospectId === undefined) {
+			return { logError: `Task ${taskId} has no prospect to log on` };
+		}
+
+		const type = getRecordValue(task, ['type']);
+		if (!ACTIVITY_TYPE_OPTIONS.some(({ value }) => value === type)) {
+			return { logError: `${String(type ?? 'Untyped')} tasks cannot be logged as activities` };
+		}
+
+		const data: IDataObject = { ProspectId: prospectId as string };
+		addIfNotEmpty(data, 'AccountId', getRecordValue(task, ['accountId']));
+		addIfNotEmpty(data, 'OpportunityId', getRecordValue(task, ['opportunityId']));
+		addIfNotEmpty(data, 'Type', type);
+		addIfNotEmpty(data, 'Subtype', getRecordValue(task, ['subtype']));
+		addIfNotEmpty(data, 'Subject', getRecordValue(task, ['subject']));
+		data.ActivityDate = new Date().toISOString();
+		addIfNotEmpty(data, 'Description', this.getNodeParameter('taskCompleteOutcome', itemIndex, ''));
+
+		const outcomeActivity = await cronoApiRequest.call(
+			this,
+			'POST',
+			`${basePath}/Activities`,
+			{},
+			{ data },
+			requestOptions,
+		);
+		return { outcomeActivity };
+	} catch (error) {
+		return { logError: (error as Error).message };
+	}
+}
+
+type ImportFailedRow = { rowIndex?: number; error: string; row: IDataObject };
+
+function getImportFailedRows(
+	record: IDataObject,
+	submittedRows: unknown[] = [],
+): ImportFailedRow[] {
+	const failures = getRecordValue(record, ['failedRows', 'rowErrors', 'importErrors', 'errors']);
+	if (!Array.isArray(failures)) {
+		return [];
+	}
+
+	return failures.map((failure) => {
+		const entry =
+			failure && typeof failure === 'object' ? (failure as IDataObject) : { error: failure };
+		// Crono reports the 1-based position of the row in the submitted import.
+		const rowNumber = getRecordValue(entry, ['rowNumber']);
+		const rowIndex =
+			typeof rowNumber === 'number' || (typeof rowNumber === 'string' && /^\d+$/.test(rowNumber))
+				? Number(rowNumber) - 1
+				: undefined;
+		const error = getRecordValue(entry, ['error', 'errorMessage', 'reason', 'message', 'errors']);
+		const data = getRecordValue(entry, ['rowData', 'data', 'row', 'values']);
+		const submittedRow = rowIndex !== undefined ? submittedRows[rowIndex] : undefined;
+		const row = data && typeof data === 'object' && !Array.isArray(data) ? data : submittedRow;
+
+		return {
+			rowIndex,
+			error: Array.isArray(error) ? error.map(String).join('; ') : String(error ?? ''),
+			row: (row as IDataObject) ?? {},
+		};
+	});
+}
+
+async function waitForImportIfRequested(
+	this: IExecuteFunctions,
+	basePath: string,
+	response: unknown,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions,
+): Promise<unknown> {
+	if (!this.getNodeParameter('importWaitForCompletion', itemIndex, false)) {
+		return response;
+	}
+
+	const importId = getRecordValue(getResponseRecord(response), ['importId', 'id', 'objectId']);
+	if (importId === undefined) {
+		throw new NodeOperationError(this.getNode(), 'The import response has no import ID', {
+			itemIndex,
+		});
+	}
+
+	const record = await waitForImport.call(
+		this,
+		basePath,
+		importId,
+		IMPORT_FINISHED_STATUSES,
+		this.getNodeParameter('importWaitTimeout', itemIndex, 600) as number,
+		this.getNodeParameter('importPollInterval', itemIndex, 10) as number,
+		itemIndex,
+		requestOptions,
+	);
+	return { ...record, counts: getImportCounts(record) };
+}
+
+// `sourceIndex` is the input item index, or the data row index within the spreadsheet.
+type ImportJob = {
+	itemIndex: number;
+	rows: Array<{ itemIndex: number; sourceIndex: number; row: IDataObject }>;
+	options: IDataObject;
+};
+
+// Row imports send many rows per request: one job for all input items, or one job per
+// spreadsheet when the rows come from binary files. Jobs are split at MAX_IMPORT_ROWS.
+async function getImportJobs(
+	this: IExecuteFunctions,
+	resource: CronoResource,
+	source: string,
+): Promise<ImportJob[]> {
+	const fields = IMPORT_FIELDS[resource] ?? [];
+	const getOptions = IMPORT_OPTIONS[resource] ?? ((): IDataObject => ({}));
+	const getMapping = (itemIndex: number) => ({
+		columns:
+			(
+				this.getNodeParameter(`${resource}ImportColumns`, itemIndex, {}) as {
+					mapping?: ImportColumn[];
+				}
+			).mapping ?? [],
+		autoMap: this.getNodeParameter('importAutoMapColumns', itemIndex, true) as boolean,
+	});
+
+	if (source === 'inputItems') {
+		const { columns, autoMap } = getMapping(0);
+		const rows = this.getInputData().map((item, itemIndex) => ({
+			itemIndex,
+			sourceIndex: itemIndex,
+			row: getImportRow(item.json, fields, columns, autoMap),
+		}));
+		return [{ itemIndex: 0, rows, options: getOptions(this, 0) }];
+	}
+
+	const jobs: ImportJob[] = [];
+	for (let itemIndex = 0; itemIndex < this.getInputData().length; itemIndex++) {
+		const propertyName = this.getNodeParameter('importBinaryPropertyName', itemIndex) as string;
+		const binaryData = this.helpers.assertBinaryData(itemIndex, propertyName);
+		const bytes: Uint8Array = await this.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+		let records: IDataObject[];
+		try {
+			records = parseSpreadsheet(bytes);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error as Error, {
+				message: `Could not read "${binaryData.fileName ?? propertyName}" as CSV or XLSX`,
+				itemIndex,
+			});
+		}
+
+		const { columns, autoMap } = getMapping(itemIndex);
+		const options = getOptions(this, itemIndex);
+		if (!options.FileName && binaryData.fileName) {
+			options.FileName = binaryData.fileName;
+		}
+		jobs.push({
+			itemIndex,
+			rows: records.map((record, sourceIndex) => ({
+				itemIndex,
+				sourceIndex,
+				row: getImportRow(record, fields, columns, autoMap),
+			})),
+			options,
+		});
+	}
+	return jobs;
+}
+
+async function executeRowImport(
+	this: IExecuteFunctions,
+	resource: CronoResource,
+	source: string,
+	throttle: () => Promise<void>,
+): Promise<INodeExecutionData[][]> {
+	const apiVersion = this.getNodeParameter('apiVersion', 0, '1') as string;
+	const basePath = `/api/v${apiVersion}`;
+	const rowsKey = IMPORT_ROWS_KEYS[resource] ?? 'Accounts';
+	const endpoint = `${basePath}/${rowsKey}/import`;
+	const requestOptions = getRequestOptions(this, 0, throttle);
+	const cache: ExternalPropertyCache = new Map();
+	const results: INodeExecutionData[] = [];
+	const failedRows: INodeExecutionData[] = [];
+	let pipelines: IDataObject[] | undefined;
+
+	for (const job of await getImportJobs.call(this, resource, source)) {
+		const rows = job.rows.filter(({ row }) => Object.keys(row).length);
+		if (!rows.length) {
+			throw new NodeOperationError(this.getNode(), 'No row could be mapped to an import field', {
+				description: 'Check the column mapping or enable auto-mapping of matching columns',
+				itemIndex: job.itemIndex,
+			});
+		}
+
+		if (resource === 'deal') {
+			for (const { itemIndex, row } of rows) {
+				if (row.Stage && row.Pipeline) {
+					pipelines ??= await getPipelines.call(this, basePath, requestOptions);
+					assertStageInPipeline(
+						this,
+						pipelines,
+						String(row.Pipeline),
+						String(row.Stage),
+						itemIndex,
+					);
+				}
+			}
+		}
+
+		const chunkCount = Math.ceil(rows.length / MAX_IMPORT_ROWS);
+		for (let chunk = 0; chunk < chunkCount; chunk++) {
+			const chunkRows = rows.slice(chunk * MAX_IMPORT_ROWS, (chunk + 1) * MAX_IMPORT_ROWS);
+			const pairedItem = [...new Set(chunkRows.map(({ itemIndex }) => itemIndex))].map(
+				(itemIndex) => ({ item: itemIndex }),
+			);
+			const data: IDataObject = {
+				[rowsKey]: chunkRows.map(({ row }) => row),
+				...job.options,
+			};
+			if (data.FileName && chunkCount > 1) {
+				data.FileName = `${String(data.FileName)} (${chunk + 1}/${chunkCount})`;
+			}
+
+			try {
+				const body = { data };
+				await translateExternalPropertyNames.call(
+					this,
+					cache,
+					basePath,
+					resource,
+					body,
+					job.itemIndex,
+					requestOptions,
+				);
+				const response = await cronoApiRequest.call(
+					this,
+					'POST',
+					endpoint,
+					{},
+					body,
+					requestOptions,
+				);
+				const json = (await waitForImportIfRequested.call(
+					this,
+					basePath,
+					response,
+					job.itemIndex,
+					requestOptions,
+				)) as IDataObject;
+				results.push({ json, pairedItem });
+
+				if (this.getNodeParameter('importWaitForCompletion', job.itemIndex, false)) {
+					const importId = getRecordValue(json, ['importId', 'id', 'objectId']);
+					for (const failedRow of getImportFailedRows(
+						json,
+						chunkRows.map(({ row }) => row),
+					)) {
+						const source =
+							failedRow.rowIndex !== undefined ? chunkRows[failedRow.rowIndex] : undefined;
+						failedRows.push({
+							json: {
+								importId,
+								...failedRow,
+								rowIndex: source?.sourceIndex,
+							} as IDataObject,
+							pairedItem: source ? { item: source.itemIndex } : pairedItem,
+						});
+					}
+				}
+			} catch (error) {
+				if (!this.continueOnFail()) {
+					throw error;
+				}
+				results.push({
+					json: { error: (error as Error).message, rows: chunkRows.length },
+					pairedItem,
+				});
+			}
+		}
+	}
+
+	return [results, failedRows];
+}
+
+// The expression in the node's outputs runs this function on the raw parameters, so it
+// must stay self-contained.
+function hasFailedRowsOutput(parameters: INodeParameters): boolean {
+	if (parameters.resource === 'import') {
+		return parameters.operation === 'get';
+	}
+	return (
+		['company', 'contact', 'deal'].includes(parameters.resource as string) &&
+		parameters.operation === 'import' &&
+		parameters.importWaitForCompletion === true
+	);
+}
+
+export class CronoPublicApi implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Crono',
+		name: 'cronoPublicApi',
+		icon: 'file:/crono.svg',
+		group: ['input'],
+		version: [1, 1.1],
+		defaultVersion: 1.1,
+		description: 'Consume the Crono Public API',
+		defaults: {
+			name: 'Crono Public API',
+		},
+		inputs: [NodeConnectionTypes.Main],
+		outputs: `={{(${hasFailedRowsOutput})($parameter) ? [{ type: '${NodeConnectionTypes.Main}', displayName: 'Import' }, { type: '${NodeConnectionTypes.Main}', displayName: 'Failed Rows' }] : ['${NodeConnectionTypes.Main}']}}`,
+		usableAsTool: true,
+		credentials: [
+			{
+				name: 'cronoPublicApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'API Version',
+				name: 'apiVersion',
+				type: 'string',
+				default: '1',
+				description: 'Crono Public API version number',
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{ name: 'Activity', value: 'activity' },
+					{ name: 'Company', value: 'company' },
+					{ name: 'Contact', value: 'contact' },
+					{ name: 'Deal', value: 'deal' },
+					{ name: 'External Property', value: 'externalProperty' },
+					{ name: 'Import', value: 'import' },
+					{ name: 'List', value: 'list' },
+					{ name: 'Note', value: 'note' },
+					{ name: 'Pipeline', value: 'pipeline' },
+					{ name: 'Strategy', value: 'strategy' },
+					{ name: 'Task', value: 'task' },
+					{ name: 'User', value: 'user' },
+				],
+				default: 'company',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: { resource: ['company'] },
+				},
+				options: [
+					{ name: 'Create', value: 'create', action: 'Create a company' },
+					{
+						name: 'Create or Update',
+						value: 'upsert',
+						action: 'Create or update a company',
+						description:
+							'Create a new record, or update the current one if it already exists (upsert)',
+					},
+					{ name: 'Delete', value: 'delete', action: 'Delete a company' },
+					{ name: 'Get', value: 'get', action: 'Get a company' },
+					{ name: 'Get Many', value: 'getAll', action: 'Get many companies' },
+					{ name: 'Import', value: 'import', action: 'Import companies' },
+					{ name: 'Search', value: 'search', action: 'Search companies' },
+					{ name: 'Update', value: 'update', action: 'Update a company' },
+				],
+				default: 'getAll',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: { resource: ['contact'] },
+				},
+				options: [
+					{ name: 'Create', value: 'create', action: 'Create a contact' },
+					{
+						name: 'Create or Update',
+						value: 'upsert',
+						action: 'Create or update a contact',
+						description:
+							'Create a new record, or update the current one if it already exists (upsert)',
+					},
+					{ name: 'Delete', value: 'delete', action: 'Delete a contact' },
+					{ name: 'Get', value: 'get', action: 'Get a contact' },
 					{ name: 'Get Many', value: 'getAll', action: 'Get many contacts' },
 					{ name: 'Import', value: 'import', action: 'Import contacts' },
 					{ name: 'Search', value: 'search', action: 'Search contacts' },
@@ -213,8 +1642,10 @@ export class CronoPublicApi implements INodeType {
 				},
 				options: [
 					{ name: 'Create', value: 'create', action: 'Create a deal' },
+					{ name: 'Delete', value: 'delete', action: 'Delete a deal' },
 					{ name: 'Get', value: 'get', action: 'Get a deal' },
 					{ name: 'Get Many', value: 'getAll', action: 'Get many deals' },
+					{ name: 'Import', value: 'import', action: 'Import deals' },
 					{ name: 'Search', value: 'search', action: 'Search deals' },
 					{ name: 'Update', value: 'update', action: 'Update a deal' },
 				],
@@ -230,9 +1661,11 @@ export class CronoPublicApi implements INodeType {
 				},
 				options: [
 					{ name: 'Create', value: 'create', action: 'Create a note' },
+					{ name: 'Delete', value: 'delete', action: 'Delete a note' },
 					{ name: 'Get', value: 'get', action: 'Get a note' },
 					{ name: 'Get Many', value: 'getAll', action: 'Get many notes' },
 					{ name: 'Search', value: 'search', action: 'Search notes' },
+					{ name: 'Update', value: 'update', action: 'Update a note' },
 				],
 				default: 'getAll',
 			},
@@ -245,8 +1678,12 @@ export class CronoPublicApi implements INodeType {
 					show: { resource: ['task'] },
 				},
 				options: [
+					{ name: 'Complete', value: 'complete', action: 'Complete a task' },
 					{ name: 'Create', value: 'create', action: 'Create a task' },
+					{ name: 'Delete', value: 'delete', action: 'Delete a task' },
+					{ name: 'Reschedule', value: 'reschedule', action: 'Reschedule a task' },
 					{ name: 'Search', value: 'search', action: 'Search tasks' },
+					{ name: 'Update', value: 'update', action: 'Update a task' },
 				],
 				default: 'search',
 			},
@@ -259,6 +1696,7 @@ export class CronoPublicApi implements INodeType {
 					show: { resource: ['activity'] },
 				},
 				options: [
+					{ name: 'Create', value: 'create', action: 'Create an activity' },
 					{ name: 'Get', value: 'get', action: 'Get an activity' },
 					{ name: 'Get Many', value: 'getAll', action: 'Get many activities' },
 					{ name: 'Search', value: 'search', action: 'Search activities' },
@@ -273,7 +1711,13 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: { resource: ['list'] },
 				},
-				options: [{ name: 'Search', value: 'search', action: 'Search lists' }],
+				options: [
+					{ name: 'Add Members', value: 'addMembers', action: 'Add members to a list' },
+					{ name: 'Create', value: 'create', action: 'Create a list' },
+					{ name: 'Get Members', value: 'getMembers', action: 'Get the members of a list' },
+					{ name: 'Remove Members', value: 'removeMembers', action: 'Remove members from a list' },
+					{ name: 'Search', value: 'search', action: 'Search lists' },
+				],
 				default: 'search',
 			},
 			{
@@ -338,6 +1782,7 @@ export class CronoPublicApi implements INodeType {
 				options: [
 					{ name: 'Get', value: 'get', action: 'Get an import' },
 					{ name: 'Get Many', value: 'getAll', action: 'Get many imports' },
+					{ name: 'Stop', value: 'stop', action: 'Stop an import' },
 				],
 				default: 'getAll',
 			},
@@ -354,6 +1799,49 @@ export class CronoPublicApi implements INodeType {
 					},
 				},
 			},
+			{
+				displayName: 'Object IDs',
+				name: 'deleteObjectIds',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal', 'note', 'task'],
+						operation: ['delete'],
+					},
+				},
+				description:
+					'Comma-separated list of IDs of the records to delete. With several IDs, each one gets its own result and a failed delete does not stop the others.',
+			},
+			{
+				displayName: 'Dry Run',
+				name: 'deleteDryRun',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal', 'note', 'task'],
+						operation: ['delete'],
+					},
+				},
+				description:
+					'Whether to only fetch and output the records that would be deleted, without deleting them',
+			},
+			{
+				displayName: 'Batch Requests',
+				name: 'batchGets',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['contact', 'deal', 'note'],
+						operation: ['get'],
+					},
+				},
+				description:
+					'Whether to fetch the records of all input items through chunked object ID searches instead of one request per item. Items whose ID is not returned get a "found: false" result.',
+			},
 			{
 				displayName: 'User ID',
 				name: 'userId',
@@ -376,23 +1864,92 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['import'],
-						operation: ['get'],
+						operation: ['get', 'stop'],
 					},
 				},
 			},
 			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
-				typeOptions: {
-					minValue: 1,
-				},
+				displayName: 'Wait for Stop',
+				name: 'importWaitForStop',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['import'],
+						operation: ['stop'],
+					},
+				},
+				description:
+					'Whether to poll the import until it is stopped or has already finished, and output the final import record',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'importWaitTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 600,
+				displayOptions: {
+					show: {
+						resource: ['import'],
+						operation: ['stop'],
+						importWaitForStop: [true],
+					},
+				},
+				description: 'How long to wait for the import to stop before failing',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'importPollInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 10,
+				displayOptions: {
+					show: {
+						resource: ['import'],
+						operation: ['stop'],
+						importWaitForStop: [true],
+					},
+				},
+				description: 'How long to wait between two import status checks',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: [
+							'company',
+							'contact',
+							'deal',
+							'note',
+							'activity',
+							'list',
+							'strategy',
+							'user',
+							'task',
+							'import',
+						],
+						operation: ['getAll', 'getMembers', 'search', 'searchDetails'],
+					},
+				},
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
 				description: 'Max number of results to return',
 				default: 50,
 				displayOptions: {
 					show: {
-						resource: ['company', 'contact', 'deal', 'note', 'activity', 'user', 'import'],
-						operation: ['getAll'],
+						resource: ['company', 'contact', 'deal', 'note', 'activity', 'user', 'import', 'list'],
+						operation: ['getAll', 'getMembers'],
+						returnAll: [false],
 					},
 				},
 			},
@@ -403,10 +1960,52 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
-						resource: ['company', 'contact', 'deal', 'note', 'activity', 'user', 'import'],
-						operation: ['getAll'],
+						resource: ['company', 'contact', 'deal', 'note', 'activity', 'user', 'import', 'list'],
+						operation: ['getAll', 'getMembers'],
+					},
+				},
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						'@version': [1],
+						operation: ['getAll', 'getMembers', 'search', 'searchDetails'],
+					},
+				},
+				description:
+					'Whether to output one item per returned record. Disable to keep the full response, including total counts, as a single item.',
+			},
+			{
+				displayName: 'Split Into Items',
+				name: 'splitIntoItems',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						operation: ['getAll', 'getMembers', 'search', 'searchDetails'],
+					},
+				},
+				description:
+					'Whether to output one item per returned record. Disable to keep the full response, including total counts, as a single item.',
+			},
+			{
+				displayName: 'Resolve External Property Names',
+				name: 'resolveExternalPropertyNames',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['create', 'get', 'getAll', 'search', 'update', 'upsert'],
 					},
 				},
+				description:
+					'Whether to key external values in the output by property name instead of property ID',
 			},
 			{
 				displayName: 'Include Options (JSON)',
@@ -477,8 +2076,8 @@ export class CronoPublicApi implements INodeType {
 				default: false,
 				displayOptions: {
 					show: {
-						resource: ['company', 'contact', 'deal', 'note', 'task'],
-						operation: ['create', 'update', 'import'],
+						resource: ['activity', 'company', 'contact', 'deal', 'list', 'note', 'task'],
+						operation: ['create', 'update', 'upsert', 'import'],
 					},
 				},
 				description: 'Whether to send a raw JSON data payload',
@@ -490,8 +2089,8 @@ export class CronoPublicApi implements INodeType {
 				default: {},
 				displayOptions: {
 					show: {
-						resource: ['company', 'contact', 'deal', 'note', 'task'],
-						operation: ['create', 'update', 'import'],
+						resource: ['activity', 'company', 'contact', 'deal', 'list', 'note', 'task'],
+						operation: ['create', 'update', 'upsert', 'import'],
 						useRawJsonData: [true],
 					},
 				},
@@ -508,8 +2107,8 @@ export class CronoPublicApi implements INodeType {
 				default: [],
 				displayOptions: {
 					show: {
-						resource: ['company', 'contact', 'deal', 'note', 'task'],
-						operation: ['create', 'update', 'import'],
+						resource: ['activity', 'company', 'contact', 'deal', 'list', 'note', 'task'],
+						operation: ['create', 'update', 'upsert', 'import'],
 						useRawJsonData: [false],
 					},
 				},
@@ -593,11 +2192,25 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company', 'contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 					},
 				},
 				description: 'Optional scrape options',
 			},
+			{
+				displayName: 'Only Active Users',
+				name: 'onlyActiveUsers',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['company', 'contact', 'deal', 'note', 'activity', 'strategy'],
+						operation: ['create', 'update', 'upsert', 'search'],
+					},
+				},
+				description: 'Whether to list only active users in the user dropdowns',
+			},
 			{
 				displayName: 'Name',
 				name: 'companyCreateName',
@@ -607,7 +2220,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -621,7 +2234,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -635,7 +2248,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -649,7 +2262,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -663,7 +2276,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -677,7 +2290,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -691,7 +2304,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -705,7 +2318,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -719,11 +2332,42 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'companyCreateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'LinkedIn Numeric ID',
@@ -733,7 +2377,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -746,7 +2390,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -760,7 +2404,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -773,10 +2417,11 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
+				description: 'ID of the company owner in the connected CRM',
 			},
 			{
 				displayName: 'User ID',
@@ -785,11 +2430,52 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['company'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						useRawJsonData: [false],
+					},
+				},
+			},
+			{
+				displayName: 'User Name or ID',
+				name: 'companyCreateUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['company'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
+				description:
+					'User to assign. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Match By',
+				name: 'companyUpsertMatchBy',
+				type: 'multiOptions',
+				default: ['linkedinNumericId', 'linkedin', 'website'],
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['upsert'],
+					},
+				},
+				options: [
+					{ name: 'LinkedIn Numeric ID', value: 'linkedinNumericId' },
+					{ name: 'LinkedIn URL', value: 'linkedin' },
+					{ name: 'Name', value: 'name' },
+					{ name: 'Website Domain', value: 'website' },
+				],
+				description:
+					'Fields used to find an existing company, tried in the order LinkedIn numeric ID, LinkedIn URL, website domain, name. URLs and names are compared case-insensitively after normalization. Companies with a LinkedIn URL or website are loaded once per execution and shared by all items.',
 			},
 			{
 				displayName: 'Name',
@@ -901,7 +2587,38 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'companyUpdateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'LinkedIn Numeric ID',
@@ -936,6 +2653,7 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['company'],
 						operation: ['update'],
 						useRawJsonData: [false],
@@ -943,124 +2661,297 @@ export class CronoPublicApi implements INodeType {
 				},
 			},
 			{
-				displayName: 'Accounts',
-				name: 'companyImportAccounts',
-				type: 'fixedCollection',
+				displayName: 'User Name or ID',
+				name: 'companyUpdateUserId',
+				type: 'options',
 				typeOptions: {
-					multipleValues: true,
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
 				},
-				default: {},
+				default: '',
 				displayOptions: {
 					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
 						resource: ['company'],
-						operation: ['import'],
+						operation: ['update'],
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Accounts to import',
-				options: [
-					{
-						name: 'account',
-						displayName: 'Account',
-						values: [
-							{
-								displayName: 'Annual Revenue',
-								name: 'annualRevenue',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'Country',
-								name: 'country',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'External Values (JSON)',
-								name: 'externalValues',
-								type: 'json',
-								default: {},
-							},
-							{
-								displayName: 'Industry',
-								name: 'industry',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'LinkedIn',
-								name: 'linkedin',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'List ID',
-								name: 'listId',
-								type: 'number',
-								default: 0,
-							},
-							{
-								displayName: 'Name',
-								name: 'name',
-								type: 'string',
-								default: '',
-								required: true,
-							},
-							{
-								displayName: 'Number Of Employees',
-								name: 'numberOfEmployees',
-								type: 'number',
-								default: 0,
-							},
-							{
-								displayName: 'Owner',
-								name: 'owner',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'Phone',
-								name: 'phone',
-								type: 'string',
-								default: '',
-							},
-							{
-								displayName: 'Website',
-								name: 'website',
-								type: 'string',
-								default: '',
-							},
-						],
-					},
-				],
+				description:
+					'User to assign. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Import Type',
-				name: 'companyImportType',
+				displayName: 'Row Source',
+				name: 'importSource',
 				type: 'options',
-				default: 'IgnoreDuplicates',
+				noDataExpression: true,
+				default: 'manual',
 				displayOptions: {
 					show: {
-						resource: ['company'],
+						resource: ['company', 'contact', 'deal'],
 						operation: ['import'],
 						useRawJsonData: [false],
 					},
 				},
 				options: [
-					{ name: 'Ignore Duplicates', value: 'IgnoreDuplicates' },
-					{ name: 'Update Duplicates', value: 'UpdateDuplicates' },
 					{
-						name: 'Update Duplicates And Change Ownership',
-						value: 'UpdateDuplicatesAndChangeOwnership',
+						name: 'Define Below',
+						value: 'manual',
+						description: 'Import the rows entered in this node, once per input item',
+					},
+					{
+						name: 'Binary File',
+						value: 'binary',
+						description: 'Import the rows of a CSV or XLSX file, once per input item',
+					},
+					{
+						name: 'Input Items',
+						value: 'inputItems',
+						description:
+							'Import one row per input item, sending all items in as few import jobs as possible',
 					},
 				],
-				description: 'How to handle duplicates during import',
 			},
 			{
-				displayName: 'File Name',
-				name: 'companyImportFileName',
-				type: 'string',
-				default: '',
+				displayName: 'Wait for Completion',
+				name: 'importWaitForCompletion',
+				type: 'boolean',
+				noDataExpression: true,
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['import'],
+					},
+				},
+				description:
+					'Whether to poll the import until it is completed, completed with errors or stopped, and output the final import record with created, updated and failed row counts',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'importWaitTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 600,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['import'],
+						importWaitForCompletion: [true],
+					},
+				},
+				description: 'How long to wait for the import to finish before failing',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'importPollInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 10,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['import'],
+						importWaitForCompletion: [true],
+					},
+				},
+				description: 'How long to wait between two import status checks',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'importBinaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['binary'],
+					},
+				},
+				hint: 'The name of the input binary field containing the CSV or XLSX file',
+				description:
+					'The delimiter and text encoding of CSV files are detected. XLSX files are read from their first sheet. The file name is used as import file name unless File Name is set.',
+			},
+			{
+				displayName: 'Auto-Map Matching Columns',
+				name: 'importAutoMapColumns',
+				type: 'boolean',
+				default: true,
+				displayOptions: {
+					show: {
+						resource: ['company', 'contact', 'deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['inputItems', 'binary'],
+					},
+				},
+				description:
+					'Whether to map input fields or file columns whose name matches a Crono field, such as "First Name", "LinkedIn URL" or "Company Domain", without an explicit mapping',
+			},
+			{
+				displayName: 'Column Mapping',
+				name: 'companyImportColumns',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['inputItems', 'binary'],
+					},
+				},
+				description: 'Input fields to send as account fields. Overrides auto-mapped columns.',
+				options: [
+					{
+						name: 'mapping',
+						displayName: 'Mapping',
+						values: [
+							{
+								displayName: 'Column',
+								name: 'column',
+								type: 'string',
+								default: '',
+								description: 'Name of the input field or file column',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'options',
+								default: '',
+								options: ACCOUNT_IMPORT_FIELDS.map(({ name, value }) => ({ name, value })),
+								description: 'Account field to fill',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Accounts',
+				name: 'companyImportAccounts',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['manual'],
+					},
+				},
+				description: 'Accounts to import',
+				options: [
+					{
+						name: 'account',
+						displayName: 'Account',
+						values: [
+							{
+								displayName: 'Annual Revenue',
+								name: 'annualRevenue',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Country',
+								name: 'country',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'External Values (JSON)',
+								name: 'externalValues',
+								type: 'json',
+								default: {},
+							},
+							{
+								displayName: 'Industry',
+								name: 'industry',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'LinkedIn',
+								name: 'linkedin',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'List ID',
+								name: 'listId',
+								type: 'number',
+								default: 0,
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+							},
+							{
+								displayName: 'Number Of Employees',
+								name: 'numberOfEmployees',
+								type: 'number',
+								default: 0,
+							},
+							{
+								displayName: 'Owner',
+								name: 'owner',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Phone',
+								name: 'phone',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Website',
+								name: 'website',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Import Type',
+				name: 'companyImportType',
+				type: 'options',
+				default: 'IgnoreDuplicates',
+				displayOptions: {
+					show: {
+						resource: ['company'],
+						operation: ['import'],
+						useRawJsonData: [false],
+					},
+				},
+				options: [
+					{ name: 'Ignore Duplicates', value: 'IgnoreDuplicates' },
+					{ name: 'Update Duplicates', value: 'UpdateDuplicates' },
+					{
+						name: 'Update Duplicates And Change Ownership',
+						value: 'UpdateDuplicatesAndChangeOwnership',
+					},
+				],
+				description: 'How to handle duplicates during import',
+			},
+			{
+				displayName: 'File Name',
+				name: 'companyImportFileName',
+				type: 'string',
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['company'],
@@ -1107,7 +2998,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1122,7 +3013,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1136,7 +3027,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1150,7 +3041,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1164,7 +3055,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1178,7 +3069,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1192,7 +3083,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1206,7 +3097,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1219,7 +3110,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1232,7 +3123,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1245,7 +3136,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1259,7 +3150,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1272,7 +3163,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1285,7 +3176,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1298,7 +3189,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1311,7 +3202,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1325,7 +3216,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1339,11 +3230,43 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'contactCreateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					loadOptionsDependsOn: ['contactCreateCreateAsLead'],
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'G2 Public ID',
@@ -1353,7 +3276,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1366,7 +3289,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1380,7 +3303,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1393,7 +3316,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1407,7 +3330,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1421,7 +3344,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1435,7 +3358,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1449,7 +3372,7 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
@@ -1462,11 +3385,32 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
+						useRawJsonData: [false],
+					},
+				},
+			},
+			{
+				displayName: 'User Name or ID',
+				name: 'contactCreateUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['contact'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
+				description:
+					'User to assign. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Generate AI Variables (JSON)',
@@ -1476,28 +3420,85 @@ export class CronoPublicApi implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['create'],
+						operation: ['create', 'upsert'],
 						useRawJsonData: [false],
 					},
 				},
 				description: 'Generate AI variables request payload',
 			},
 			{
-				displayName: 'First Name',
-				name: 'contactUpdateFirstName',
-				type: 'string',
-				default: '',
+				displayName: 'Match By',
+				name: 'contactUpsertMatchBy',
+				type: 'multiOptions',
+				default: ['email', 'linkedin', 'linkedinLeadId'],
 				displayOptions: {
 					show: {
 						resource: ['contact'],
-						operation: ['update'],
-						useRawJsonData: [false],
+						operation: ['upsert'],
 					},
 				},
-				description: 'Contact first name',
+				options: [
+					{ name: 'Email', value: 'email' },
+					{ name: 'LinkedIn Lead ID', value: 'linkedinLeadId' },
+					{ name: 'LinkedIn URL', value: 'linkedin' },
+				],
+				description:
+					'Fields used to find an existing contact, tried in the order email, LinkedIn URL, LinkedIn lead ID. Emails and URLs are compared case-insensitively. Contacts with an email or LinkedIn URL are loaded once per execution and shared by all items.',
 			},
 			{
-				displayName: 'Last Name',
+				displayName: 'Match Within Account Only',
+				name: 'contactUpsertScopeToAccount',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['upsert'],
+					},
+				},
+				description:
+					'Whether to only match contacts that belong to the account set in the Account ID field. The account is also used as a search filter.',
+			},
+			{
+				displayName: 'On Multiple Matches',
+				name: 'contactUpsertMultipleMatches',
+				type: 'options',
+				default: 'error',
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['upsert'],
+					},
+				},
+				options: [
+					{
+						name: 'Fail',
+						value: 'error',
+						description: 'Stop with an error listing the matching contacts',
+					},
+					{
+						name: 'Update Newest',
+						value: 'newest',
+						description: 'Update the most recently created matching contact',
+					},
+				],
+			},
+			{
+				displayName: 'First Name',
+				name: 'contactUpdateFirstName',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Contact first name',
+			},
+			{
+				displayName: 'Last Name',
 				name: 'contactUpdateLastName',
 				type: 'string',
 				default: '',
@@ -1605,7 +3606,38 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'contactUpdateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'Mobile Phone',
@@ -1628,11 +3660,73 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
+						resource: ['contact'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+			},
+			{
+				displayName: 'User Name or ID',
+				name: 'contactUpdateUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
 						resource: ['contact'],
 						operation: ['update'],
 						useRawJsonData: [false],
 					},
 				},
+				description:
+					'User to assign. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Column Mapping',
+				name: 'contactImportColumns',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['contact'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['inputItems', 'binary'],
+					},
+				},
+				description: 'Input fields to send as prospect fields. Overrides auto-mapped columns.',
+				options: [
+					{
+						name: 'mapping',
+						displayName: 'Mapping',
+						values: [
+							{
+								displayName: 'Column',
+								name: 'column',
+								type: 'string',
+								default: '',
+								description: 'Name of the input field or file column',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'options',
+								default: '',
+								options: PROSPECT_IMPORT_FIELDS.map(({ name, value }) => ({ name, value })),
+								description: 'Prospect field to fill',
+							},
+						],
+					},
+				],
 			},
 			{
 				displayName: 'Prospects',
@@ -1647,6 +3741,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['contact'],
 						operation: ['import'],
 						useRawJsonData: [false],
+						importSource: ['manual'],
 					},
 				},
 				description: 'Prospects to import',
@@ -1889,6 +3984,183 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Comma-separated list of AI external property IDs to generate',
 			},
+			{
+				displayName: 'Column Mapping',
+				name: 'dealImportColumns',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['inputItems', 'binary'],
+					},
+				},
+				description: 'Input fields to send as opportunity fields. Overrides auto-mapped columns.',
+				options: [
+					{
+						name: 'mapping',
+						displayName: 'Mapping',
+						values: [
+							{
+								displayName: 'Column',
+								name: 'column',
+								type: 'string',
+								default: '',
+								description: 'Name of the input field or file column',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'options',
+								default: '',
+								options: OPPORTUNITY_IMPORT_FIELDS.map(({ name, value }) => ({ name, value })),
+								description: 'Opportunity field to fill',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Opportunities',
+				name: 'dealImportOpportunities',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+						importSource: ['manual'],
+					},
+				},
+				description:
+					'Opportunities to import. Each one is matched to an account by account ID, website, LinkedIn or name.',
+				options: [
+					{
+						name: 'opportunity',
+						displayName: 'Opportunity',
+						values: [
+							{
+								displayName: 'Account ID',
+								name: 'accountId',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Account LinkedIn',
+								name: 'accountLinkedin',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Account Name',
+								name: 'accountName',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Account Website',
+								name: 'accountWebsite',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Amount',
+								name: 'amount',
+								type: 'number',
+								default: 0,
+							},
+							{
+								displayName: 'Close Date',
+								name: 'closeDate',
+								type: 'dateTime',
+								default: '',
+							},
+							{
+								displayName: 'Description',
+								name: 'description',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'External Values (JSON)',
+								name: 'externalValues',
+								type: 'json',
+								default: {},
+							},
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								required: true,
+							},
+							{
+								displayName: 'Owner',
+								name: 'owner',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Pipeline',
+								name: 'pipeline',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Stage',
+								name: 'stage',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Import Type',
+				name: 'dealImportType',
+				type: 'options',
+				default: 'IgnoreDuplicates',
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+					},
+				},
+				options: [
+					{ name: 'Ignore Duplicates', value: 'IgnoreDuplicates' },
+					{ name: 'Update Duplicates', value: 'UpdateDuplicates' },
+					{
+						name: 'Update Duplicates And Change Ownership',
+						value: 'UpdateDuplicatesAndChangeOwnership',
+					},
+				],
+				description: 'How to handle duplicates during import',
+			},
+			{
+				displayName: 'File Name',
+				name: 'dealImportFileName',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['import'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Optional file name associated with the import',
+			},
 			{
 				displayName: 'Account ID',
 				name: 'dealCreateAccountId',
@@ -1933,9 +4205,12 @@ export class CronoPublicApi implements INodeType {
 				description: 'Deal amount',
 			},
 			{
-				displayName: 'Stage',
-				name: 'dealCreateStage',
-				type: 'string',
+				displayName: 'Pipeline Name or ID',
+				name: 'dealCreatePipeline',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getPipelines',
+				},
 				default: '',
 				displayOptions: {
 					show: {
@@ -1944,12 +4219,17 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Deal stage',
+				description:
+					'Deal pipeline. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Pipeline',
-				name: 'dealCreatePipeline',
-				type: 'string',
+				displayName: 'Stage Name or ID',
+				name: 'dealCreateStage',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getStages',
+					loadOptionsDependsOn: ['dealCreatePipeline'],
+				},
 				default: '',
 				displayOptions: {
 					show: {
@@ -1958,7 +4238,8 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Deal pipeline',
+				description:
+					'Deal stage in the selected pipeline. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Close Date',
@@ -2003,7 +4284,38 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'dealCreateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'User ID',
@@ -2012,6 +4324,7 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['deal'],
 						operation: ['create'],
 						useRawJsonData: [false],
@@ -2020,8 +4333,28 @@ export class CronoPublicApi implements INodeType {
 				description: 'Owner user ID',
 			},
 			{
-				displayName: 'Account ID',
-				name: 'dealUpdateAccountId',
+				displayName: 'User Name or ID',
+				name: 'dealCreateUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['deal'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Account ID',
+				name: 'dealUpdateAccountId',
 				type: 'string',
 				default: '',
 				required: true,
@@ -2078,9 +4411,12 @@ export class CronoPublicApi implements INodeType {
 				description: 'Deal amount',
 			},
 			{
-				displayName: 'Stage',
+				displayName: 'Stage Name or ID',
 				name: 'dealUpdateStage',
-				type: 'string',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getStages',
+				},
 				default: '',
 				displayOptions: {
 					show: {
@@ -2089,7 +4425,8 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Deal stage',
+				description:
+					'Deal stage. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Close Date',
@@ -2162,7 +4499,38 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				description: 'Custom field values keyed by external property ID',
+				description: 'Custom field values keyed by external property ID or name',
+			},
+			{
+				displayName: 'External Properties',
+				name: 'dealUpdateExternalProperties',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getExternalPropertyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'property',
+							plural: 'properties',
+						},
+						addAllFields: false,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+				},
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Custom property values, merged over External Values (JSON)',
 			},
 			{
 				displayName: 'User ID',
@@ -2171,6 +4539,7 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['deal'],
 						operation: ['update'],
 						useRawJsonData: [false],
@@ -2178,6 +4547,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'dealUpdateUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['deal'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Description',
 				name: 'noteCreateDescription',
@@ -2196,6 +4585,94 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Note content',
 			},
+			{
+				displayName: 'Note ID',
+				name: 'noteUpdateNoteId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['note'],
+						operation: ['update'],
+					},
+				},
+				description: 'ID of the note to update',
+			},
+			{
+				displayName: 'Description',
+				name: 'noteUpdateDescription',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['note'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Note content to add',
+			},
+			{
+				displayName: 'Update Mode',
+				name: 'noteUpdateMode',
+				type: 'options',
+				default: 'append',
+				displayOptions: {
+					show: {
+						resource: ['note'],
+						operation: ['update'],
+						useRawJsonData: [false],
+					},
+				},
+				options: [
+					{
+						name: 'Append',
+						value: 'append',
+						description: 'Add the content after the current note content',
+					},
+					{
+						name: 'Replace',
+						value: 'replace',
+						description: 'Replace the current note content',
+					},
+				],
+			},
+			{
+				displayName: 'Input Format',
+				name: 'noteInputFormat',
+				type: 'options',
+				default: 'html',
+				displayOptions: {
+					show: {
+						resource: ['note'],
+						operation: ['create', 'update'],
+						useRawJsonData: [false],
+					},
+				},
+				options: [
+					{
+						name: 'HTML',
+						value: 'html',
+						description: 'Send the content as is',
+					},
+					{
+						name: 'Markdown',
+						value: 'markdown',
+						description: 'Convert headings, lists, links and emphasis to HTML',
+					},
+					{
+						name: 'Plain Text',
+						value: 'text',
+						description: 'Escape the content and keep its paragraphs and line breaks',
+					},
+				],
+				description: 'Format of the note content. Crono renders notes as HTML.',
+			},
 			{
 				displayName: 'Account ID',
 				name: 'noteCreateAccountId',
@@ -2239,6 +4716,19 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Comma-separated list of prospect IDs',
 			},
+			{
+				displayName: 'Output Description as Plain Text',
+				name: 'noteOutputPlainText',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['note'],
+						operation: ['create', 'get', 'getAll', 'search', 'update'],
+					},
+				},
+				description: 'Whether to strip the HTML of note descriptions in the output',
+			},
 			{
 				displayName: 'Account ID',
 				name: 'taskCreateAccountId',
@@ -2282,13 +4772,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				options: [
-					{ name: 'Call', value: 'Call' },
-					{ name: 'Email', value: 'Email' },
-					{ name: 'Generic', value: 'Generic' },
-					{ name: 'InMail', value: 'InMail' },
-					{ name: 'LinkedIn', value: 'Linkedin' },
-				],
+				options: TASK_TYPE_OPTIONS,
 				description: 'Task type',
 			},
 			{
@@ -2318,13 +4802,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonData: [false],
 					},
 				},
-				options: [
-					{ name: 'LinkedIn Invitation', value: 'LinkedinInvitation' },
-					{ name: 'LinkedIn Like Last Post', value: 'LinkedinLikeLastPost' },
-					{ name: 'LinkedIn Message', value: 'LinkedinMessage' },
-					{ name: 'LinkedIn Profile View', value: 'LinkedinProfileView' },
-					{ name: 'LinkedIn Voice Note', value: 'LinkedinVoiceNote' },
-				],
+				options: TASK_SUBTYPE_OPTIONS,
 				description: 'Task subtype',
 			},
 			{
@@ -2429,198 +4907,401 @@ export class CronoPublicApi implements INodeType {
 				},
 			},
 			{
-				displayName: 'Limit',
-				name: 'taskSearchLimit',
-				type: 'number',
-				typeOptions: {
-					minValue: 1,
+				displayName: 'Task ID',
+				name: 'taskId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['update', 'complete', 'reschedule'],
+					},
 				},
-				default: 50,
+				description: 'ID of the task',
+			},
+			{
+				displayName: 'Type',
+				name: 'taskUpdateType',
+				type: 'options',
+				options: TASK_TYPE_OPTIONS,
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				description: 'Max number of tasks to return',
+				description: 'New task type',
 			},
 			{
-				displayName: 'Offset',
-				name: 'taskSearchOffset',
-				type: 'number',
-				default: 0,
+				displayName: 'Subtype',
+				name: 'taskUpdateSubtype',
+				type: 'options',
+				options: TASK_SUBTYPE_OPTIONS,
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				description: 'Number of tasks to skip',
+				description: 'New task subtype',
 			},
 			{
-				displayName: 'Date',
-				name: 'taskSearchDate',
+				displayName: 'Activity Date',
+				name: 'taskUpdateActivityDate',
 				type: 'dateTime',
 				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				description: 'Filter tasks by a specific date',
+				description: 'New date/time of the task activity',
 			},
 			{
-				displayName: 'Prospect ID',
-				name: 'taskSearchProspectId',
-				type: 'string',
-				default: '',
+				displayName: 'Template ID',
+				name: 'taskUpdateTemplateId',
+				type: 'number',
+				default: 0,
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				description: 'Filter tasks by prospect ID',
 			},
 			{
 				displayName: 'Opportunity ID',
-				name: 'taskSearchOpportunityId',
+				name: 'taskUpdateOpportunityId',
 				type: 'string',
 				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				description: 'Filter tasks by opportunity ID',
+				description: 'Opportunity ID linked to the task',
 			},
 			{
-				displayName: 'Completed',
-				name: 'taskSearchCompleted',
-				type: 'boolean',
-				default: false,
+				displayName: 'Subject',
+				name: 'taskUpdateSubject',
+				type: 'string',
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
+				description: 'Task subject',
 			},
 			{
-				displayName: 'Type',
-				name: 'taskSearchType',
-				type: 'options',
-				default: 'Generic',
+				displayName: 'Description',
+				name: 'taskUpdateDescription',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['update'],
+						useRawJsonData: [false],
 					},
 				},
-				options: [
-					{ name: 'Call', value: 'Call' },
-					{ name: 'Email', value: 'Email' },
-					{ name: 'Generic', value: 'Generic' },
-					{ name: 'InMail', value: 'InMail' },
-					{ name: 'LinkedIn', value: 'Linkedin' },
-				],
-				description: 'Task type',
+				description: 'Task description',
 			},
 			{
-				displayName: 'Subtype',
-				name: 'taskSearchSubtype',
+				displayName: 'Reschedule By',
+				name: 'taskRescheduleMode',
 				type: 'options',
-				default: 'LinkedinInvitation',
+				default: 'shift',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['reschedule'],
 					},
 				},
 				options: [
-					{ name: 'LinkedIn Invitation', value: 'LinkedinInvitation' },
-					{ name: 'LinkedIn Like Last Post', value: 'LinkedinLikeLastPost' },
-					{ name: 'LinkedIn Message', value: 'LinkedinMessage' },
-					{ name: 'LinkedIn Profile View', value: 'LinkedinProfileView' },
-					{ name: 'LinkedIn Voice Note', value: 'LinkedinVoiceNote' },
+					{
+						name: 'Shifting the Current Date',
+						value: 'shift',
+						description: 'Move the activity date forward or back by an amount of time',
+					},
+					{
+						name: 'Setting a New Date',
+						value: 'date',
+						description: 'Replace the activity date',
+					},
 				],
-				description: 'Task subtype',
 			},
 			{
-				displayName: 'Types',
-				name: 'taskSearchTypes',
-				type: 'multiOptions',
-				default: [],
+				displayName: 'Shift',
+				name: 'taskRescheduleShift',
+				type: 'number',
+				default: 1,
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['reschedule'],
+						taskRescheduleMode: ['shift'],
 					},
 				},
-				options: [
-					{ name: 'Call', value: 'Call' },
-					{ name: 'Email', value: 'Email' },
-					{ name: 'Generic', value: 'Generic' },
-					{ name: 'InMail', value: 'InMail' },
-					{ name: 'LinkedIn', value: 'Linkedin' },
-				],
-				description: 'Task types',
+				description:
+					'Amount of time to move the activity date by. Use a negative number to move it back.',
 			},
 			{
-				displayName: 'Since',
-				name: 'taskSearchSince',
-				type: 'dateTime',
-				default: '',
+				displayName: 'Unit',
+				name: 'taskRescheduleUnit',
+				type: 'options',
+				default: 'days',
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['reschedule'],
+						taskRescheduleMode: ['shift'],
 					},
 				},
-				description: 'Only tasks updated since this date/time',
+				options: [
+					{ name: 'Days', value: 'days' },
+					{ name: 'Hours', value: 'hours' },
+					{ name: 'Minutes', value: 'minutes' },
+					{ name: 'Weeks', value: 'weeks' },
+				],
 			},
 			{
-				displayName: 'To',
-				name: 'taskSearchTo',
+				displayName: 'Activity Date',
+				name: 'taskRescheduleDate',
 				type: 'dateTime',
 				default: '',
+				required: true,
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['reschedule'],
+						taskRescheduleMode: ['date'],
 					},
 				},
-				description: 'Only tasks updated before this date/time',
+				description: 'New date/time of the task activity',
 			},
 			{
-				displayName: 'Automatic',
-				name: 'taskSearchAutomatic',
+				displayName: 'Log Outcome Activity',
+				name: 'taskCompleteLogActivity',
 				type: 'boolean',
 				default: false,
 				displayOptions: {
 					show: {
 						resource: ['task'],
-						operation: ['search'],
-						useRawJsonSearch: [false],
+						operation: ['complete'],
 					},
 				},
+				description:
+					'Whether to log an activity with the outcome of the task on the same prospect. Generic tasks cannot be logged; when logging fails the completed task is returned with a logError field.',
 			},
 			{
-				displayName: 'Has Automation Error',
-				name: 'taskSearchHasAutomationError',
+				displayName: 'Outcome',
+				name: 'taskCompleteOutcome',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['complete'],
+						taskCompleteLogActivity: [true],
+					},
+				},
+				description: 'Description of the logged activity',
+			},
+			{
+				displayName: 'Limit',
+				name: 'taskSearchLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+						returnAll: [false],
+					},
+				},
+				description: 'Max number of tasks to return',
+			},
+			{
+				displayName: 'Offset',
+				name: 'taskSearchOffset',
+				type: 'number',
+				default: 0,
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Number of tasks to skip',
+			},
+			{
+				displayName: 'Date',
+				name: 'taskSearchDate',
+				type: 'dateTime',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Filter tasks by a specific date',
+			},
+			{
+				displayName: 'Prospect ID',
+				name: 'taskSearchProspectId',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Filter tasks by prospect ID',
+			},
+			{
+				displayName: 'Opportunity ID',
+				name: 'taskSearchOpportunityId',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Filter tasks by opportunity ID',
+			},
+			{
+				displayName: 'Completed',
+				name: 'taskSearchCompleted',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+			},
+			{
+				displayName: 'Type',
+				name: 'taskSearchType',
+				type: 'options',
+				default: 'Generic',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				options: TASK_TYPE_OPTIONS,
+				description: 'Task type',
+			},
+			{
+				displayName: 'Subtype',
+				name: 'taskSearchSubtype',
+				type: 'options',
+				default: 'LinkedinInvitation',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				options: TASK_SUBTYPE_OPTIONS,
+				description: 'Task subtype',
+			},
+			{
+				displayName: 'Types',
+				name: 'taskSearchTypes',
+				type: 'multiOptions',
+				default: [],
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				options: TASK_TYPE_OPTIONS,
+				description: 'Task types',
+			},
+			{
+				displayName: 'Since',
+				name: 'taskSearchSince',
+				type: 'dateTime',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Only tasks updated since this date/time',
+			},
+			{
+				displayName: 'To',
+				name: 'taskSearchTo',
+				type: 'dateTime',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description: 'Only tasks updated before this date/time',
+			},
+			{
+				displayName: 'Automatic',
+				name: 'taskSearchAutomatic',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						resource: ['task'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+			},
+			{
+				displayName: 'Has Automation Error',
+				name: 'taskSearchHasAutomationError',
 				type: 'boolean',
 				default: false,
 				displayOptions: {
@@ -2853,6 +5534,7 @@ export class CronoPublicApi implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['company'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -2860,6 +5542,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'companySearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['company'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Limit',
 				name: 'companySearchLimit',
@@ -2873,6 +5575,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['company'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -2925,7 +5628,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'External property filters',
+				description: 'External property filters keyed by property ID or name',
 			},
 			{
 				displayName: 'External Property Numeric Filters (JSON)',
@@ -2939,7 +5642,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'External property numeric filters',
+				description: 'External property numeric filters keyed by property ID or name',
 			},
 			{
 				displayName: 'External Property Empty IDs',
@@ -3329,6 +6032,7 @@ export class CronoPublicApi implements INodeType {
 				default: 0,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['contact'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -3336,6 +6040,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'contactSearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['contact'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Limit',
 				name: 'contactSearchLimit',
@@ -3349,6 +6073,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['contact'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -3379,7 +6104,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'Account external property filters',
+				description: 'Account external property filters keyed by property ID or name',
 			},
 			{
 				displayName: 'Account External Property Empty IDs',
@@ -3407,7 +6132,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'Account external property numeric filters',
+				description: 'Account external property numeric filters keyed by property ID or name',
 			},
 			{
 				displayName: 'Account ID',
@@ -3533,7 +6258,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'External property filters',
+				description: 'External property filters keyed by property ID or name',
 			},
 			{
 				displayName: 'External Property Empty IDs',
@@ -3561,7 +6286,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'External property numeric filters',
+				description: 'External property numeric filters keyed by property ID or name',
 			},
 			{
 				displayName: 'From Contact',
@@ -3955,6 +6680,7 @@ export class CronoPublicApi implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['deal'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -3963,23 +6689,51 @@ export class CronoPublicApi implements INodeType {
 				description: 'Owner user ID',
 			},
 			{
-				displayName: 'Stage',
-				name: 'dealSearchStage',
-				type: 'string',
+				displayName: 'User Name or ID',
+				name: 'dealSearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
 						resource: ['deal'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'Deal stage',
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
-				displayName: 'Pipeline',
+				displayName: 'Pipeline Name or ID',
 				name: 'dealSearchPipeline',
-				type: 'string',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getPipelines',
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['deal'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Deal pipeline. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Stage Name or ID',
+				name: 'dealSearchStage',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getStages',
+					loadOptionsDependsOn: ['dealSearchPipeline'],
+				},
 				default: '',
 				displayOptions: {
 					show: {
@@ -3988,7 +6742,8 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'Deal pipeline',
+				description:
+					'Deal stage in the selected pipeline. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 			},
 			{
 				displayName: 'Object IDs',
@@ -4017,6 +6772,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['deal'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -4212,7 +6968,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				description: 'External property filters',
+				description: 'External property filters keyed by property ID or name',
 			},
 			{
 				displayName: 'Sort',
@@ -4310,6 +7066,7 @@ export class CronoPublicApi implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['note'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -4317,6 +7074,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'noteSearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['note'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Object IDs',
 				name: 'noteSearchObjectIds',
@@ -4344,6 +7121,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['note'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -4471,12 +7249,178 @@ export class CronoPublicApi implements INodeType {
 				},
 			},
 			{
-				displayName: 'Subject',
-				name: 'activitySearchSubject',
-				type: 'string',
-				default: '',
-				displayOptions: {
-					show: {
+				displayName: 'Type',
+				name: 'activityCreateType',
+				type: 'options',
+				default: 'Call',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				options: ACTIVITY_TYPE_OPTIONS,
+				description: 'Activity type',
+			},
+			{
+				displayName: 'Subtype',
+				name: 'activityCreateSubtype',
+				type: 'options',
+				default: 'LinkedinMessage',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+						activityCreateType: ['Linkedin'],
+					},
+				},
+				options: TASK_SUBTYPE_OPTIONS,
+				description: 'LinkedIn activity subtype',
+			},
+			{
+				displayName: 'Prospect ID',
+				name: 'activityCreateProspectId',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Prospect ID linked to the activity',
+			},
+			{
+				displayName: 'Account ID',
+				name: 'activityCreateAccountId',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Account ID linked to the activity',
+			},
+			{
+				displayName: 'Opportunity ID',
+				name: 'activityCreateOpportunityId',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Opportunity ID linked to the activity',
+			},
+			{
+				displayName: 'Activity Date',
+				name: 'activityCreateActivityDate',
+				type: 'dateTime',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Date/time of the activity. Defaults to now.',
+			},
+			{
+				displayName: 'Subject',
+				name: 'activityCreateSubject',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Activity subject',
+			},
+			{
+				displayName: 'Body',
+				name: 'activityCreateDescription',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'Activity body, such as the email text or the call notes',
+			},
+			{
+				displayName: 'Call Duration (Seconds)',
+				name: 'activityCreateCallDuration',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 0,
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+						activityCreateType: ['Call'],
+					},
+				},
+				description: 'Duration of the call',
+			},
+			{
+				displayName: 'Call Outcome',
+				name: 'activityCreateCallOutcome',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+						activityCreateType: ['Call'],
+					},
+				},
+				description: 'Outcome of the call, such as Connected, Voicemail or No Answer',
+			},
+			{
+				displayName: 'Recording URL',
+				name: 'activityCreateCallRecordingUrl',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						resource: ['activity'],
+						operation: ['create'],
+						useRawJsonData: [false],
+						activityCreateType: ['Call'],
+					},
+				},
+				description: 'URL of the call recording',
+			},
+			{
+				displayName: 'Subject',
+				name: 'activitySearchSubject',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
 						resource: ['activity'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -4533,6 +7477,7 @@ export class CronoPublicApi implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['activity'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -4540,6 +7485,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'activitySearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['activity'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'Object ID',
 				name: 'activitySearchObjectId',
@@ -4567,6 +7532,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['activity'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -4737,13 +7703,7 @@ export class CronoPublicApi implements INodeType {
 						useRawJsonSearch: [false],
 					},
 				},
-				options: [
-					{ name: 'LinkedIn Invitation', value: 'LinkedinInvitation' },
-					{ name: 'LinkedIn Like Last Post', value: 'LinkedinLikeLastPost' },
-					{ name: 'LinkedIn Message', value: 'LinkedinMessage' },
-					{ name: 'LinkedIn Profile View', value: 'LinkedinProfileView' },
-					{ name: 'LinkedIn Voice Note', value: 'LinkedinVoiceNote' },
-				],
+				options: TASK_SUBTYPE_OPTIONS,
 			},
 			{
 				displayName: 'Crono Object ID',
@@ -4836,6 +7796,67 @@ export class CronoPublicApi implements INodeType {
 					},
 				},
 			},
+			{
+				displayName: 'List ID',
+				name: 'listId',
+				type: 'number',
+				default: 0,
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['list'],
+						operation: ['addMembers', 'getMembers', 'removeMembers'],
+					},
+				},
+			},
+			{
+				displayName: 'Name',
+				name: 'listCreateName',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['list'],
+						operation: ['create'],
+						useRawJsonData: [false],
+					},
+				},
+				description: 'List name',
+			},
+			{
+				displayName: 'List Type',
+				name: 'listType',
+				type: 'options',
+				default: 'Account',
+				displayOptions: {
+					show: {
+						resource: ['list'],
+						operation: ['create', 'addMembers', 'removeMembers'],
+						useRawJsonData: [false],
+					},
+				},
+				options: [
+					{ name: 'Account', value: 'Account' },
+					{ name: 'Lead', value: 'Lead' },
+					{ name: 'Prospect', value: 'Prospect' },
+				],
+				description: 'Type of the records in the list',
+			},
+			{
+				displayName: 'Member IDs',
+				name: 'listMemberIds',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['list'],
+						operation: ['addMembers', 'removeMembers'],
+					},
+				},
+				description: 'Comma-separated list of account, lead or prospect IDs',
+			},
 			{
 				displayName: 'Name',
 				name: 'listSearchName',
@@ -4962,6 +7983,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['list'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -5029,6 +8051,7 @@ export class CronoPublicApi implements INodeType {
 				default: '',
 				displayOptions: {
 					show: {
+						'@version': [1],
 						resource: ['strategy'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
@@ -5036,6 +8059,26 @@ export class CronoPublicApi implements INodeType {
 				},
 				description: 'Owner user ID',
 			},
+			{
+				displayName: 'User Name or ID',
+				name: 'strategySearchUserId',
+				type: 'options',
+				typeOptions: {
+					loadOptionsMethod: 'getUsers',
+					loadOptionsDependsOn: ['apiVersion', 'onlyActiveUsers'],
+				},
+				default: '',
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 1.1 } }],
+						resource: ['strategy'],
+						operation: ['search'],
+						useRawJsonSearch: [false],
+					},
+				},
+				description:
+					'Owner user. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
 			{
 				displayName: 'IDs',
 				name: 'strategySearchIds',
@@ -5063,6 +8106,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['strategy'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -5213,6 +8257,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['strategy'],
 						operation: ['searchDetails'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -5481,6 +8526,7 @@ export class CronoPublicApi implements INodeType {
 						resource: ['user'],
 						operation: ['search'],
 						useRawJsonSearch: [false],
+						returnAll: [false],
 					},
 				},
 				description: 'Max number of results to return',
@@ -5541,1653 +8587,2360 @@ export class CronoPublicApi implements INodeType {
 				],
 				description: 'Filter imports by status',
 			},
+			{
+				displayName: 'Request Options',
+				name: 'requestOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Include Attempt Count',
+						name: 'includeAttempts',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add an "attempts" field to each output item with the number of HTTP attempts made for it',
+					},
+					{
+						displayName: 'Initial Retry Delay (Ms)',
+						name: 'retryDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 1000,
+						description:
+							'Delay before the first retry. Doubles on each further attempt, with jitter, unless Crono sends a Retry-After or rate-limit reset header.',
+					},
+					{
+						displayName: 'Max Concurrent Requests',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 1,
+						description:
+							'How many input items to process at the same time. Output keeps the input order. Read from the first item only.',
+					},
+					{
+						displayName: 'Max Retries',
+						name: 'maxRetries',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 3,
+						description:
+							'How many times to retry a request that failed with 429, 502, 503, 504 or a network reset',
+					},
+					{
+						displayName: 'Max Retry Delay (Ms)',
+						name: 'maxRetryDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 30000,
+						description:
+							'Upper bound for the computed backoff delay. A delay requested by the server through Retry-After or a rate-limit reset header is honored as is.',
+					},
+					{
+						displayName: 'Max Total Retry Wait (Ms)',
+						name: 'maxRetryWait',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 120000,
+						description:
+							'How long one request may spend waiting between retries in total. A request fails with the delay the server asked for once the next wait would exceed it.',
+					},
+					{
+						displayName: 'Requests Per Second',
+						name: 'requestsPerSecond',
+						type: 'number',
+						typeOptions: { minValue: 0, numberPrecision: 2 },
+						default: 0,
+						description:
+							'Maximum rate of requests sent to Crono across all items, including retries and extra pages. Use 0 for no limit. Read from the first item only.',
+					},
+					{
+						displayName: 'Retry Non-Idempotent Requests',
+						name: 'retryNonIdempotent',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to also retry POST and PATCH requests such as creates, updates, searches and imports on server and network errors. A retried write may be applied twice. Rate-limited (429) requests are always retried.',
+					},
+				],
+			},
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+	methods = {
+		loadOptions: {
+			async getUsers(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const apiVersion = this.getNodeParameter('apiVersion', '1') as string;
+				const onlyActiveUsers = this.getNodeParameter('onlyActiveUsers', false) as boolean;
+				const response = await cronoApiRequestAllItems.call(
+					this,
+					'POST',
+					`/api/v${apiVersion}/Users/search`,
+					{},
+					onlyActiveUsers ? { Active: true } : {},
+					'body',
+					0,
+				);
 
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-			const resource = this.getNodeParameter('resource', itemIndex) as CronoResource;
-			const operation = this.getNodeParameter('operation', itemIndex) as string;
-			const apiVersion = this.getNodeParameter('apiVersion', itemIndex, '1') as string;
-			const basePath = `/api/v${apiVersion}`;
-			const useRawJsonData = this.getNodeParameter('useRawJsonData', itemIndex, false) as boolean;
-			const useRawJsonSearch = this.getNodeParameter('useRawJsonSearch', itemIndex, false) as boolean;
+				return (getResponseRecords(response) ?? []).map((user) => {
+					const email = getRecordValue(user, ['email']) as string | undefined;
+					const id = getRecordValue(user, ['id', 'objectId']) as number;
+					const fullName = [getRecordValue(user, ['firstName']), getRecordValue(user, ['lastName'])]
+						.filter((part) => part)
+						.join(' ');
+					return {
+						name: fullName || (getRecordValue(user, ['name']) as string) || email || String(id),
+						value: id,
+						description: email,
+					};
+				});
+			},
 
-			let endpoint = '';
-			let method: IHttpRequestMethods = 'GET';
-			let qs: IDataObject = {};
-			let body: IDataObject | undefined;
+			async getPipelines(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const apiVersion = this.getNodeParameter('apiVersion', '1') as string;
+				const pipelines = await getPipelines.call(this, `/api/v${apiVersion}`);
 
-			if (operation === 'getAll') {
-				const limit = this.getNodeParameter('limit', itemIndex, 50) as number;
-				const offset = this.getNodeParameter('offset', itemIndex, 0) as number;
-				qs = { limit, offset };
-			}
+				return pipelines.map((pipeline) => ({
+					name: String(getRecordValue(pipeline, ['name', 'label']) ?? getPipelineValue(pipeline)),
+					value: getPipelineValue(pipeline),
+				}));
+			},
 
-			switch (resource) {
-				case 'company': {
-					endpoint = `${basePath}/Accounts`;
-					if (operation === 'get') {
-						method = 'GET';
-						const objectId = this.getNodeParameter('objectId', itemIndex) as string;
-						endpoint = `${endpoint}/${objectId}`;
-						qs = getJsonParameter(this, 'includeOptions', itemIndex);
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
-						qs = { ...qs, ...includeOptions };
-					} else if (operation === 'search') {
-						method = 'POST';
-						endpoint = `${endpoint}/search`;
-						if (useRawJsonSearch) {
-							body = getJsonParameter(this, 'search', itemIndex);
-						} else {
-							const searchBody: IDataObject = {};
-							addIfNotEmpty(
-								searchBody,
-								'Name',
-								this.getNodeParameter('companySearchName', itemIndex, ''),
-							);
-							const status = this.getNodeParameter(
-								'companySearchStatus',
-								itemIndex,
-								[],
-							) as string[];
-							if (status.length) {
-								searchBody.Status = status;
-							}
-							const externalProperties = getJsonParameter(
-								this,
-								'companySearchExternalProperties',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalProperties).length) {
-								searchBody.ExternalProperties = externalProperties;
-							}
-							const externalPropertyNumericFilters = getJsonParameter(
-								this,
-								'companySearchExternalPropertyNumericFilters',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalPropertyNumericFilters).length) {
-								searchBody.ExternalPropertyNumericFilters = externalPropertyNumericFilters;
-							}
-							const externalPropertyEmptyIds = parseCsv(
-								this.getNodeParameter(
-									'companySearchExternalPropertyEmptyIds',
+			async getStages(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const apiVersion = this.getNodeParameter('apiVersion', '1') as string;
+				const operation = this.getNodeParameter('operation', '') as string;
+				const pipelineParameter =
+					operation === 'search' ? 'dealSearchPipeline' : 'dealCreatePipeline';
+				const selectedPipeline =
+					operation === 'update'
+						? ''
+						: ((this.getCurrentNodeParameter(pipelineParameter) as string | undefined) ?? '');
+				const pipelines = await getPipelines.call(this, `/api/v${apiVersion}`);
+
+				return pipelines
+					.filter(
+						(pipeline) => !selectedPipeline || getPipelineValue(pipeline) === selectedPipeline,
+					)
+					.flatMap((pipeline) =>
+						getPipelineStages(pipeline).map((stage) => ({
+							name: getStageLabel(stage),
+							value: getStageValue(stage),
+							description: selectedPipeline
+								? undefined
+								: String(getRecordValue(pipeline, ['name', 'label']) ?? ''),
+						})),
+					);
+			},
+		},
+		resourceMapping: {
+			async getExternalPropertyFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const apiVersion = this.getNodeParameter('apiVersion', '1') as string;
+				const resource = this.getNodeParameter('resource', 'company') as CronoResource;
+				const createAsLead =
+					resource === 'contact' &&
+					(this.getNodeParameter('contactCreateCreateAsLead', false) as boolean);
+				const tableType = createAsLead ? 'Lead' : EXTERNAL_PROPERTY_TABLE_TYPES[resource];
+				const properties = tableType
+					? await getExternalProperties.call(this, `/api/v${apiVersion}`, tableType)
+					: [];
+
+				return {
+					fields: properties.map((property) => {
+						const type = getExternalPropertyFieldType(property);
+						return {
+							id: getExternalPropertyId(property),
+							displayName: getExternalPropertyName(property),
+							required: false,
+							defaultMatch: false,
+							display: true,
+							type,
+							options: type === 'options' ? getExternalPropertyOptions(property) : undefined,
+						};
+					}),
+					emptyFieldsNotice: 'No custom properties found for this record type',
+				};
+			},
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const schedulerOptions = this.getNodeParameter('requestOptions', 0, {}) as IDataObject;
+		const throttle = createRateLimiter((schedulerOptions.requestsPerSecond as number) ?? 0);
+		let pipelines: IDataObject[] | undefined;
+		const externalPropertyCache: ExternalPropertyCache = new Map();
+		const upsertCache: UpsertCache = new Map();
+		let externalPropertyNames: Map<string, string> | undefined;
+
+		const resource = this.getNodeParameter('resource', 0) as CronoResource;
+		const operation = this.getNodeParameter('operation', 0) as string;
+		if (
+			operation === 'get' &&
+			BATCH_GET_ENDPOINTS[resource] &&
+			this.getNodeParameter('batchGets', 0, false)
+		) {
+			return [await executeBatchedGet.call(this, resource, throttle)];
+		}
+
+		const importSource =
+			operation === 'import' &&
+			IMPORT_FIELDS[resource] &&
+			!this.getNodeParameter('useRawJsonData', 0, false)
+				? (this.getNodeParameter('importSource', 0, 'manual') as string)
+				: 'manual';
+		if (importSource !== 'manual') {
+			const [results, failedRows] = await executeRowImport.call(
+				this,
+				resource,
+				importSource,
+				throttle,
+			);
+			return hasFailedRowsOutput(this.getNode().parameters) ? [results, failedRows] : [results];
+		}
+
+		const failedRows: INodeExecutionData[][] = [];
+		const processItem = async (itemIndex: number): Promise<INodeExecutionData[]> => {
+			let endpoint = '';
+			let method: IHttpRequestMethods = 'GET';
+			let qs: IDataObject = {};
+			let body: IDataObject | undefined;
+			let attempts = 0;
+			let upsertAction: string | undefined;
+
+			try {
+				const retryOptions = getRequestOptions(this, itemIndex, throttle, () => attempts++);
+				const includeAttempts = this.getNodeParameter(
+					'requestOptions.includeAttempts',
+					itemIndex,
+					false,
+				) as boolean;
+				const resource = this.getNodeParameter('resource', itemIndex) as CronoResource;
+				const operation = this.getNodeParameter('operation', itemIndex) as string;
+				const apiVersion = this.getNodeParameter('apiVersion', itemIndex, '1') as string;
+				const basePath = `/api/v${apiVersion}`;
+				const useRawJsonData = this.getNodeParameter('useRawJsonData', itemIndex, false) as boolean;
+				const useRawJsonSearch = this.getNodeParameter('useRawJsonSearch', itemIndex, false) as boolean;
+
+				if (operation === 'delete' && DELETE_ENDPOINTS[resource]) {
+					method = 'DELETE';
+					endpoint = `${basePath}/${DELETE_ENDPOINTS[resource]}`;
+					const objectIds = parseCsv(
+						String(this.getNodeParameter('deleteObjectIds', itemIndex, '')),
+					);
+					if (!objectIds.length) {
+						throw new NodeOperationError(this.getNode(), 'No object ID to delete', { itemIndex });
+					}
+					const results = await deleteRecords.call(
+						this,
+						endpoint,
+						objectIds,
+						this.getNodeParameter('deleteDryRun', itemIndex, false) as boolean,
+						retryOptions,
+					);
+					return results.map((json) => ({
+						json: includeAttempts ? { ...json, attempts } : json,
+						pairedItem: { item: itemIndex },
+					}));
+				}
+
+				if (operation === 'getAll' || operation === 'getMembers') {
+					const limit = this.getNodeParameter('limit', itemIndex, 50) as number;
+					const offset = this.getNodeParameter('offset', itemIndex, 0) as number;
+					qs = { limit, offset };
+				}
+
+				switch (resource) {
+					case 'company': {
+						endpoint = `${basePath}/Accounts`;
+						if (operation === 'get') {
+							method = 'GET';
+							const objectId = this.getNodeParameter('objectId', itemIndex) as string;
+							endpoint = `${endpoint}/${objectId}`;
+							qs = getJsonParameter(this, 'includeOptions', itemIndex);
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
+							qs = { ...qs, ...includeOptions };
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'Name',
+									this.getNodeParameter('companySearchName', itemIndex, ''),
+								);
+								const status = this.getNodeParameter(
+									'companySearchStatus',
 									itemIndex,
-									'',
-								) as string,
-							);
-							if (externalPropertyEmptyIds.length) {
-								searchBody.ExternalPropertyEmptyIds = externalPropertyEmptyIds.map((id) =>
-									parseInt(id, 10),
+									[],
+								) as string[];
+								if (status.length) {
+									searchBody.Status = status;
+								}
+								const externalProperties = getJsonParameter(
+									this,
+									'companySearchExternalProperties',
+									itemIndex,
+									{},
 								);
-							}
-							addIfNotEmpty(
-								searchBody,
-								'Industry',
-								this.getNodeParameter('companySearchIndustry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Country',
-								this.getNodeParameter('companySearchCountry', itemIndex, ''),
-							);
-							const numberOfEmployeesMin = this.getNodeParameter(
-								'companySearchNumberOfEmployeesMin',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployeesMin) {
-								searchBody.NumberOfEmployeesMin = numberOfEmployeesMin;
-							}
-							const numberOfEmployeesMax = this.getNodeParameter(
-								'companySearchNumberOfEmployeesMax',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployeesMax) {
-								searchBody.NumberOfEmployeesMax = numberOfEmployeesMax;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'CurrentSolution',
-								this.getNodeParameter('companySearchCurrentSolution', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'UserId',
-								this.getNodeParameter('companySearchUserId', itemIndex, ''),
-							);
-							if (this.getNodeParameter('companySearchNoUser', itemIndex, false)) {
-								searchBody.NoUser = true;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMin',
-								this.getNodeParameter('companySearchCreatedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMax',
-								this.getNodeParameter('companySearchCreatedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastActivityDateMin',
-								this.getNodeParameter('companySearchLastActivityDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastActivityDateMax',
-								this.getNodeParameter('companySearchLastActivityDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMin',
-								this.getNodeParameter('companySearchLastModifiedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMax',
-								this.getNodeParameter('companySearchLastModifiedDateMax', itemIndex, ''),
-							);
-							if (this.getNodeParameter('companySearchHasLinkedin', itemIndex, false)) {
-								searchBody.HasLinkedin = true;
-							}
-							if (this.getNodeParameter('companySearchHasWebsite', itemIndex, false)) {
-								searchBody.HasWebsite = true;
-							}
-							if (this.getNodeParameter('companySearchHasPhone', itemIndex, false)) {
-								searchBody.HasPhone = true;
-							}
-							if (this.getNodeParameter('companySearchHasActivities', itemIndex, false)) {
-								searchBody.HasActivities = true;
-							}
-							if (this.getNodeParameter('companySearchHasReplies', itemIndex, false)) {
-								searchBody.HasReplies = true;
-							}
-							if (this.getNodeParameter('companySearchHasActiveTasks', itemIndex, false)) {
-								searchBody.HasActiveTasks = true;
-							}
-							if (this.getNodeParameter('companySearchHasEmailsOpened', itemIndex, false)) {
-								searchBody.HasEmailsOpened = true;
-							}
-							if (this.getNodeParameter('companySearchHasClickedLinks', itemIndex, false)) {
-								searchBody.HasClickedLinks = true;
-							}
-							const cleanEmptyName = this.getNodeParameter(
-								'companySearchCleanEmptyName',
-								itemIndex,
-								true,
-							) as boolean;
-							searchBody.CleanEmptyName = cleanEmptyName;
-							addIfNotEmpty(
-								searchBody,
-								'Sort',
-								this.getNodeParameter('companySearchSort', itemIndex, ''),
-							);
-							const includes: IDataObject = {};
-							if (
-								this.getNodeParameter(
-									'companySearchIncludeExternalValuesNoTags',
+								if (Object.keys(externalProperties).length) {
+									searchBody.ExternalProperties = externalProperties;
+								}
+								const externalPropertyNumericFilters = getJsonParameter(
+									this,
+									'companySearchExternalPropertyNumericFilters',
 									itemIndex,
-									false,
-								)
-							) {
-								includes.WithExternalValuesNoTags = true;
-							}
-							if (this.getNodeParameter('companySearchIncludeTags', itemIndex, false)) {
-								includes.WithTags = true;
-							}
-							if (this.getNodeParameter('companySearchIncludeTasks', itemIndex, false)) {
-								includes.WithTasks = true;
-							}
-							if (Object.keys(includes).length) {
-								searchBody.Includes = includes;
-							}
-							const pagination: IDataObject = {};
-							addIfNotEmpty(
-								pagination,
-								'Limit',
-								this.getNodeParameter('companySearchLimit', itemIndex, 50),
-							);
-							addIfNotEmpty(
-								pagination,
-								'Offset',
-								this.getNodeParameter('companySearchOffset', itemIndex, 0),
-							);
-							if (Object.keys(pagination).length) {
-								searchBody.Pagination = pagination;
-							}
-							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-							body = searchBody;
-						}
-					} else if (operation === 'create') {
-						method = 'POST';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'Name',
-								this.getNodeParameter('companyCreateName', itemIndex, ''),
-							);
-							const numberOfEmployees = this.getNodeParameter(
-								'companyCreateNumberOfEmployees',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployees) {
-								data.NumberOfEmployees = numberOfEmployees;
-							}
-							addIfNotEmpty(
-								data,
-								'AnnualRevenue',
-								this.getNodeParameter('companyCreateAnnualRevenue', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Website',
-								this.getNodeParameter('companyCreateWebsite', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Linkedin',
-								this.getNodeParameter('companyCreateLinkedin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'LinkedinNumericId',
-								this.getNodeParameter('companyCreateLinkedinNumericId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Industry',
-								this.getNodeParameter('companyCreateIndustry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Country',
-								this.getNodeParameter('companyCreateCountry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Phone',
-								this.getNodeParameter('companyCreatePhone', itemIndex, ''),
-							);
-							if (this.getNodeParameter('companyCreateCreateInCrm', itemIndex, false)) {
-								data.CreateInCrm = true;
-							}
-							const externalValues = getJsonParameter(
-								this,
-								'companyCreateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							addIfNotEmpty(
-								data,
-								'OwnerId',
-								this.getNodeParameter('companyCreateOwnerId', itemIndex, ''),
-							);
-							const userId = this.getNodeParameter('companyCreateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							const listId = this.getNodeParameter('companyCreateListId', itemIndex, 0) as number;
-							if (listId) {
-								data.ListId = listId;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						const scrapeOptions = getJsonParameter(this, 'scrapeOptions', itemIndex, {});
-						body = { data, ...(Object.keys(scrapeOptions).length ? { scrapeOptions } : {}) };
-					} else if (operation === 'update') {
-						method = 'PATCH';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'Name',
-								this.getNodeParameter('companyUpdateName', itemIndex, ''),
-							);
-							const numberOfEmployees = this.getNodeParameter(
-								'companyUpdateNumberOfEmployees',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployees) {
-								data.NumberOfEmployees = numberOfEmployees;
-							}
-							addIfNotEmpty(
-								data,
-								'AnnualRevenue',
-								this.getNodeParameter('companyUpdateAnnualRevenue', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Website',
-								this.getNodeParameter('companyUpdateWebsite', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Linkedin',
-								this.getNodeParameter('companyUpdateLinkedin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'LinkedinNumericId',
-								this.getNodeParameter('companyUpdateLinkedinNumericId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Industry',
-								this.getNodeParameter('companyUpdateIndustry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Country',
-								this.getNodeParameter('companyUpdateCountry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Phone',
-								this.getNodeParameter('companyUpdatePhone', itemIndex, ''),
-							);
-							const externalValues = getJsonParameter(
-								this,
-								'companyUpdateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							const userId = this.getNodeParameter('companyUpdateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					} else if (operation === 'import') {
-						method = 'POST';
-						endpoint = `${endpoint}/import`;
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							const accountsValue = this.getNodeParameter(
-								'companyImportAccounts',
-								itemIndex,
-								{},
-							) as { account?: Array<IDataObject> };
-							const accounts = (accountsValue.account ?? []).map((account) => {
-								const accountData: IDataObject = {};
-								addIfNotEmpty(accountData, 'Name', account.name);
-								addIfNotEmpty(accountData, 'Website', account.website);
-								addIfNotEmpty(accountData, 'Industry', account.industry);
-								addIfNotEmpty(accountData, 'Country', account.country);
-								addIfNotEmpty(accountData, 'Phone', account.phone);
-								addIfNotEmpty(accountData, 'AnnualRevenue', account.annualRevenue);
-								addIfNotEmpty(accountData, 'Linkedin', account.linkedin);
-								const numberOfEmployees = account.numberOfEmployees as number;
+									{},
+								);
+								if (Object.keys(externalPropertyNumericFilters).length) {
+									searchBody.ExternalPropertyNumericFilters = externalPropertyNumericFilters;
+								}
+								const externalPropertyEmptyIds = parseCsv(
+									this.getNodeParameter(
+										'companySearchExternalPropertyEmptyIds',
+										itemIndex,
+										'',
+									) as string,
+								);
+								if (externalPropertyEmptyIds.length) {
+									searchBody.ExternalPropertyEmptyIds = externalPropertyEmptyIds.map((id) =>
+										parseInt(id, 10),
+									);
+								}
+								addIfNotEmpty(
+									searchBody,
+									'Industry',
+									this.getNodeParameter('companySearchIndustry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Country',
+									this.getNodeParameter('companySearchCountry', itemIndex, ''),
+								);
+								const numberOfEmployeesMin = this.getNodeParameter(
+									'companySearchNumberOfEmployeesMin',
+									itemIndex,
+									0,
+								) as number;
+								if (numberOfEmployeesMin) {
+									searchBody.NumberOfEmployeesMin = numberOfEmployeesMin;
+								}
+								const numberOfEmployeesMax = this.getNodeParameter(
+									'companySearchNumberOfEmployeesMax',
+									itemIndex,
+									0,
+								) as number;
+								if (numberOfEmployeesMax) {
+									searchBody.NumberOfEmployeesMax = numberOfEmployeesMax;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CurrentSolution',
+									this.getNodeParameter('companySearchCurrentSolution', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'UserId',
+									this.getNodeParameter('companySearchUserId', itemIndex, ''),
+								);
+								if (this.getNodeParameter('companySearchNoUser', itemIndex, false)) {
+									searchBody.NoUser = true;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMin',
+									this.getNodeParameter('companySearchCreatedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMax',
+									this.getNodeParameter('companySearchCreatedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastActivityDateMin',
+									this.getNodeParameter('companySearchLastActivityDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastActivityDateMax',
+									this.getNodeParameter('companySearchLastActivityDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMin',
+									this.getNodeParameter('companySearchLastModifiedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMax',
+									this.getNodeParameter('companySearchLastModifiedDateMax', itemIndex, ''),
+								);
+								if (this.getNodeParameter('companySearchHasLinkedin', itemIndex, false)) {
+									searchBody.HasLinkedin = true;
+								}
+								if (this.getNodeParameter('companySearchHasWebsite', itemIndex, false)) {
+									searchBody.HasWebsite = true;
+								}
+								if (this.getNodeParameter('companySearchHasPhone', itemIndex, false)) {
+									searchBody.HasPhone = true;
+								}
+								if (this.getNodeParameter('companySearchHasActivities', itemIndex, false)) {
+									searchBody.HasActivities = true;
+								}
+								if (this.getNodeParameter('companySearchHasReplies', itemIndex, false)) {
+									searchBody.HasReplies = true;
+								}
+								if (this.getNodeParameter('companySearchHasActiveTasks', itemIndex, false)) {
+									searchBody.HasActiveTasks = true;
+								}
+								if (this.getNodeParameter('companySearchHasEmailsOpened', itemIndex, false)) {
+									searchBody.HasEmailsOpened = true;
+								}
+								if (this.getNodeParameter('companySearchHasClickedLinks', itemIndex, false)) {
+									searchBody.HasClickedLinks = true;
+								}
+								const cleanEmptyName = this.getNodeParameter(
+									'companySearchCleanEmptyName',
+									itemIndex,
+									true,
+								) as boolean;
+								searchBody.CleanEmptyName = cleanEmptyName;
+								addIfNotEmpty(
+									searchBody,
+									'Sort',
+									this.getNodeParameter('companySearchSort', itemIndex, ''),
+								);
+								const includes: IDataObject = {};
+								if (
+									this.getNodeParameter(
+										'companySearchIncludeExternalValuesNoTags',
+										itemIndex,
+										false,
+									)
+								) {
+									includes.WithExternalValuesNoTags = true;
+								}
+								if (this.getNodeParameter('companySearchIncludeTags', itemIndex, false)) {
+									includes.WithTags = true;
+								}
+								if (this.getNodeParameter('companySearchIncludeTasks', itemIndex, false)) {
+									includes.WithTasks = true;
+								}
+								if (Object.keys(includes).length) {
+									searchBody.Includes = includes;
+								}
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('companySearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('companySearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create' || operation === 'upsert') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'Name',
+									this.getNodeParameter('companyCreateName', itemIndex, ''),
+								);
+								const numberOfEmployees = this.getNodeParameter(
+									'companyCreateNumberOfEmployees',
+									itemIndex,
+									0,
+								) as number;
 								if (numberOfEmployees) {
-									accountData.NumberOfEmployees = numberOfEmployees;
+									data.NumberOfEmployees = numberOfEmployees;
+								}
+								addIfNotEmpty(
+									data,
+									'AnnualRevenue',
+									this.getNodeParameter('companyCreateAnnualRevenue', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Website',
+									this.getNodeParameter('companyCreateWebsite', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Linkedin',
+									this.getNodeParameter('companyCreateLinkedin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'LinkedinNumericId',
+									this.getNodeParameter('companyCreateLinkedinNumericId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Industry',
+									this.getNodeParameter('companyCreateIndustry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Country',
+									this.getNodeParameter('companyCreateCountry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Phone',
+									this.getNodeParameter('companyCreatePhone', itemIndex, ''),
+								);
+								if (this.getNodeParameter('companyCreateCreateInCrm', itemIndex, false)) {
+									data.CreateInCrm = true;
+								}
+								const externalValues = getExternalValues(
+									this,
+									'companyCreateExternalValues',
+									'companyCreateExternalProperties',
+									itemIndex,
+								);
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
 								}
-								if (account.externalValues && Object.keys(account.externalValues).length) {
-									accountData.ExternalValues = account.externalValues;
+								addIfNotEmpty(
+									data,
+									'OwnerId',
+									this.getNodeParameter('companyCreateOwnerId', itemIndex, ''),
+								);
+								const userId = this.getNodeParameter('companyCreateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
 								}
-								const listId = account.listId as number;
+								const listId = this.getNodeParameter('companyCreateListId', itemIndex, 0) as number;
 								if (listId) {
-									accountData.ListId = listId;
+									data.ListId = listId;
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							const scrapeOptions = getJsonParameter(this, 'scrapeOptions', itemIndex, {});
+							body = { data, ...(Object.keys(scrapeOptions).length ? { scrapeOptions } : {}) };
+							if (operation === 'upsert') {
+								const [match] = await findUpsertMatches.call(
+									this,
+									upsertCache,
+									endpoint,
+									COMPANY_UPSERT_KEYS,
+									this.getNodeParameter('companyUpsertMatchBy', itemIndex, []) as string[],
+									data,
+									{},
+									itemIndex,
+									retryOptions,
+								);
+								upsertAction = match ? 'updated' : 'created';
+								if (match) {
+									method = 'PATCH';
+									const updateData: IDataObject = {
+										...data,
+										AccountId: getRecordValue(match, ['objectId', 'accountId', 'id']) as string,
+									};
+									for (const field of COMPANY_CREATE_ONLY_FIELDS) {
+										delete updateData[field];
+									}
+									body = { data: updateData };
 								}
-								addIfNotEmpty(accountData, 'Owner', account.owner);
-								return accountData;
-							});
-							if (accounts.length) {
-								data.Accounts = accounts;
 							}
-							addIfNotEmpty(
-								data,
-								'ImportType',
-								this.getNodeParameter('companyImportType', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'FileName',
-								this.getNodeParameter('companyImportFileName', itemIndex, ''),
-							);
-							const enrichCompany = this.getNodeParameter(
-								'companyImportEnrichCompany',
-								itemIndex,
-								false,
-							) as boolean;
-							if (enrichCompany) {
-								data.EnrichCompany = true;
-							}
-							const aiExternalPropertyIds = parseCsv(
-								this.getNodeParameter('companyImportAiExternalPropertyIds', itemIndex, '') as string,
-							);
-							if (aiExternalPropertyIds.length) {
-								data.AiExternalPropertiesIdsToGenerate = aiExternalPropertyIds.map((id) =>
-									parseInt(id, 10),
+						} else if (operation === 'update') {
+							method = 'PATCH';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'Name',
+									this.getNodeParameter('companyUpdateName', itemIndex, ''),
 								);
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					}
-					break;
-				}
-				case 'contact': {
-					endpoint = `${basePath}/Prospects`;
-					if (operation === 'get') {
-						method = 'GET';
-						const objectId = this.getNodeParameter('objectId', itemIndex) as string;
-						endpoint = `${endpoint}/${objectId}`;
-						qs = getJsonParameter(this, 'includeOptions', itemIndex);
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
-						qs = { ...qs, ...includeOptions };
-					} else if (operation === 'search') {
-						method = 'POST';
-						endpoint = `${endpoint}/search`;
-						if (useRawJsonSearch) {
-							body = getJsonParameter(this, 'search', itemIndex);
-						} else {
-							const searchBody: IDataObject = {};
-							addIfNotEmpty(
-								searchBody,
-								'Name',
-								this.getNodeParameter('contactSearchName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Title',
-								this.getNodeParameter('contactSearchTitle', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Country',
-								this.getNodeParameter('contactSearchCountry', itemIndex, ''),
-							);
-							const objectIds = parseCsv(
-								this.getNodeParameter('contactSearchObjectIds', itemIndex, '') as string,
-							);
-							if (objectIds.length) {
-								searchBody.ObjectIds = objectIds;
-							}
-							const userId = this.getNodeParameter('contactSearchUserId', itemIndex, 0) as number;
-							if (userId) {
-								searchBody.UserId = userId;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'Industry',
-								this.getNodeParameter('contactSearchIndustry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Location',
-								this.getNodeParameter('contactSearchLocation', itemIndex, ''),
-							);
-							const actualStatus = this.getNodeParameter(
-								'contactSearchActualStatus',
-								itemIndex,
-								[],
-							) as string[];
-							if (actualStatus.length) {
-								searchBody.ActualStatus = actualStatus;
-							}
-							const accountStatus = this.getNodeParameter(
-								'contactSearchAccountStatus',
-								itemIndex,
-								[],
-							) as string[];
-							if (accountStatus.length) {
-								searchBody.AccountStatus = accountStatus;
-							}
-							const externalProperties = getJsonParameter(
-								this,
-								'contactSearchExternalProperties',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalProperties).length) {
-								searchBody.ExternalProperties = externalProperties;
-							}
-							const externalPropertyNumericFilters = getJsonParameter(
-								this,
-								'contactSearchExternalPropertyNumericFilters',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalPropertyNumericFilters).length) {
-								searchBody.ExternalPropertyNumericFilters = externalPropertyNumericFilters;
-							}
-							const externalPropertyEmptyIds = parseCsv(
-								this.getNodeParameter(
-									'contactSearchExternalPropertyEmptyIds',
+								const numberOfEmployees = this.getNodeParameter(
+									'companyUpdateNumberOfEmployees',
 									itemIndex,
-									'',
-								) as string,
-							);
-							if (externalPropertyEmptyIds.length) {
-								searchBody.ExternalPropertyEmptyIds = externalPropertyEmptyIds.map((id) =>
-									parseInt(id, 10),
+									0,
+								) as number;
+								if (numberOfEmployees) {
+									data.NumberOfEmployees = numberOfEmployees;
+								}
+								addIfNotEmpty(
+									data,
+									'AnnualRevenue',
+									this.getNodeParameter('companyUpdateAnnualRevenue', itemIndex, ''),
 								);
-							}
-							const accountExternalProperties = getJsonParameter(
-								this,
-								'contactSearchAccountExternalProperties',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(accountExternalProperties).length) {
-								searchBody.AccountExternalProperties = accountExternalProperties;
-							}
-							const accountExternalPropertyNumericFilters = getJsonParameter(
-								this,
-								'contactSearchAccountExternalPropertyNumericFilters',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(accountExternalPropertyNumericFilters).length) {
-								searchBody.AccountExternalPropertyNumericFilters =
-									accountExternalPropertyNumericFilters;
-							}
-							const accountExternalPropertyEmptyIds = parseCsv(
-								this.getNodeParameter(
-									'contactSearchAccountExternalPropertyEmptyIds',
+								addIfNotEmpty(
+									data,
+									'Website',
+									this.getNodeParameter('companyUpdateWebsite', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Linkedin',
+									this.getNodeParameter('companyUpdateLinkedin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'LinkedinNumericId',
+									this.getNodeParameter('companyUpdateLinkedinNumericId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Industry',
+									this.getNodeParameter('companyUpdateIndustry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Country',
+									this.getNodeParameter('companyUpdateCountry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Phone',
+									this.getNodeParameter('companyUpdatePhone', itemIndex, ''),
+								);
+								const externalValues = getExternalValues(
+									this,
+									'companyUpdateExternalValues',
+									'companyUpdateExternalProperties',
 									itemIndex,
-									'',
-								) as string,
-							);
-							if (accountExternalPropertyEmptyIds.length) {
-								searchBody.AccountExternalPropertyEmptyIds = accountExternalPropertyEmptyIds.map(
-									(id) => parseInt(id, 10),
 								);
-							}
-							const numberOfEmployeesMin = this.getNodeParameter(
-								'contactSearchNumberOfEmployeesMin',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployeesMin) {
-								searchBody.NumberOfEmployeesMin = numberOfEmployeesMin;
-							}
-							const numberOfEmployeesMax = this.getNodeParameter(
-								'contactSearchNumberOfEmployeesMax',
-								itemIndex,
-								0,
-							) as number;
-							if (numberOfEmployeesMax) {
-								searchBody.NumberOfEmployeesMax = numberOfEmployeesMax;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'CurrentSolution',
-								this.getNodeParameter('contactSearchCurrentSolution', itemIndex, ''),
-							);
-							if (this.getNodeParameter('contactSearchNoUser', itemIndex, false)) {
-								searchBody.NoUser = true;
-							}
-							if (this.getNodeParameter('contactSearchInSequence', itemIndex, false)) {
-								searchBody.InSequence = true;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'AccountId',
-								this.getNodeParameter('contactSearchAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMin',
-								this.getNodeParameter('contactSearchCreatedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMax',
-								this.getNodeParameter('contactSearchCreatedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastActivityDateMin',
-								this.getNodeParameter('contactSearchLastActivityDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastActivityDateMax',
-								this.getNodeParameter('contactSearchLastActivityDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMin',
-								this.getNodeParameter('contactSearchLastModifiedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMax',
-								this.getNodeParameter('contactSearchLastModifiedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Sort',
-								this.getNodeParameter('contactSearchSort', itemIndex, ''),
-							);
-							if (this.getNodeParameter('contactSearchIsPhoneValid', itemIndex, false)) {
-								searchBody.IsPhoneValid = true;
-							}
-							const verificationStatuses = this.getNodeParameter(
-								'contactSearchVerificationStatuses',
-								itemIndex,
-								[],
-							) as string[];
-							if (verificationStatuses.length) {
-								searchBody.VerificationStatuses = verificationStatuses;
-							}
-							if (this.getNodeParameter('contactSearchFromContact', itemIndex, false)) {
-								searchBody.FromContact = true;
-							}
-							if (this.getNodeParameter('contactSearchHasLinkedin', itemIndex, false)) {
-								searchBody.HasLinkedin = true;
-							}
-							if (this.getNodeParameter('contactSearchHasEmail', itemIndex, false)) {
-								searchBody.HasEmail = true;
-							}
-							if (this.getNodeParameter('contactSearchHasPhone', itemIndex, false)) {
-								searchBody.HasPhone = true;
-							}
-							if (this.getNodeParameter('contactSearchHasMobilePhone', itemIndex, false)) {
-								searchBody.HasMobilePhone = true;
-							}
-							if (this.getNodeParameter('contactSearchHasActivities', itemIndex, false)) {
-								searchBody.HasActivities = true;
-							}
-							if (this.getNodeParameter('contactSearchHasReplies', itemIndex, false)) {
-								searchBody.HasReplies = true;
-							}
-							if (this.getNodeParameter('contactSearchHasEmailsOpened', itemIndex, false)) {
-								searchBody.HasEmailsOpened = true;
-							}
-							if (this.getNodeParameter('contactSearchHasConnectedCalls', itemIndex, false)) {
-								searchBody.HasConnectedCalls = true;
-							}
-							if (this.getNodeParameter('contactSearchHasClickedLinks', itemIndex, false)) {
-								searchBody.HasClickedLinks = true;
-							}
-							if (this.getNodeParameter('contactSearchHasActiveTasks', itemIndex, false)) {
-								searchBody.HasActiveTasks = true;
-							}
-							if (this.getNodeParameter('contactSearchOptedOut', itemIndex, false)) {
-								searchBody.OptedOut = true;
-							}
-							const pagination: IDataObject = {};
-							addIfNotEmpty(
-								pagination,
-								'Limit',
-								this.getNodeParameter('contactSearchLimit', itemIndex, 50),
-							);
-							addIfNotEmpty(
-								pagination,
-								'Offset',
-								this.getNodeParameter('contactSearchOffset', itemIndex, 0),
-							);
-							if (Object.keys(pagination).length) {
-								searchBody.Pagination = pagination;
-							}
-							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-							body = searchBody;
-						}
-					} else if (operation === 'create') {
-						method = 'POST';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'FirstName',
-								this.getNodeParameter('contactCreateFirstName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'LastName',
-								this.getNodeParameter('contactCreateLastName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Phone',
-								this.getNodeParameter('contactCreatePhone', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'MobilePhone',
-								this.getNodeParameter('contactCreateMobilePhone', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Email',
-								this.getNodeParameter('contactCreateEmail', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Title',
-								this.getNodeParameter('contactCreateTitle', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Location',
-								this.getNodeParameter('contactCreateLocation', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Linkedin',
-								this.getNodeParameter('contactCreateLinkedin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'LinkedinLeadId',
-								this.getNodeParameter('contactCreateLinkedinLeadId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'G2PublicId',
-								this.getNodeParameter('contactCreateG2PublicId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Company',
-								this.getNodeParameter('contactCreateCompany', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CompanyLinkedin',
-								this.getNodeParameter('contactCreateCompanyLinkedin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CompanyLinkedinNumericId',
-								this.getNodeParameter('contactCreateCompanyLinkedinNumericId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CompanyWebsite',
-								this.getNodeParameter('contactCreateCompanyWebsite', itemIndex, ''),
-							);
-							const companyNumberOfEmployees = this.getNodeParameter(
-								'contactCreateCompanyNumberOfEmployees',
-								itemIndex,
-								0,
-							) as number;
-							if (companyNumberOfEmployees) {
-								data.CompanyNumberOfEmployees = companyNumberOfEmployees;
-							}
-							addIfNotEmpty(
-								data,
-								'CompanyIndustry',
-								this.getNodeParameter('contactCreateCompanyIndustry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CompanyCountry',
-								this.getNodeParameter('contactCreateCompanyCountry', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CompanyAnnualRevenue',
-								this.getNodeParameter('contactCreateCompanyAnnualRevenue', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'AccountId',
-								this.getNodeParameter('contactCreateAccountId', itemIndex, ''),
-							);
-							if (this.getNodeParameter('contactCreateCreateAsLead', itemIndex, false)) {
-								data.CreateAsLead = true;
-							}
-							const externalValues = getJsonParameter(
-								this,
-								'contactCreateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							const strategyId = this.getNodeParameter(
-								'contactCreateStrategyId',
-								itemIndex,
-								0,
-							) as number;
-							if (strategyId) {
-								data.StrategyId = strategyId;
-							}
-							const generateAiVariables = getJsonParameter(
-								this,
-								'contactCreateGenerateAiVariables',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(generateAiVariables).length) {
-								data.GenerateAiVariables = generateAiVariables;
-							}
-							const userId = this.getNodeParameter('contactCreateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							addIfNotEmpty(
-								data,
-								'CountryCode',
-								this.getNodeParameter('contactCreateCountryCode', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'TimeZone',
-								this.getNodeParameter('contactCreateTimeZone', itemIndex, ''),
-							);
-							const listId = this.getNodeParameter('contactCreateListId', itemIndex, 0) as number;
-							if (listId) {
-								data.ListId = listId;
-							}
-							if (this.getNodeParameter('contactCreateCreateInCrm', itemIndex, false)) {
-								data.CreateInCrm = true;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						const scrapeOptions = getJsonParameter(this, 'scrapeOptions', itemIndex, {});
-						body = { data, ...(Object.keys(scrapeOptions).length ? { scrapeOptions } : {}) };
-					} else if (operation === 'update') {
-						method = 'PATCH';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'FirstName',
-								this.getNodeParameter('contactUpdateFirstName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'LastName',
-								this.getNodeParameter('contactUpdateLastName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Phone',
-								this.getNodeParameter('contactUpdatePhone', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'MobilePhone',
-								this.getNodeParameter('contactUpdateMobilePhone', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Email',
-								this.getNodeParameter('contactUpdateEmail', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Title',
-								this.getNodeParameter('contactUpdateTitle', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Location',
-								this.getNodeParameter('contactUpdateLocation', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Linkedin',
-								this.getNodeParameter('contactUpdateLinkedin', itemIndex, ''),
-							);
-							const externalValues = getJsonParameter(
-								this,
-								'contactUpdateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							const userId = this.getNodeParameter('contactUpdateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							addIfNotEmpty(
-								data,
-								'CountryCode',
-								this.getNodeParameter('contactUpdateCountryCode', itemIndex, ''),
-							);
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					} else if (operation === 'import') {
-						method = 'POST';
-						endpoint = `${endpoint}/import`;
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							const prospectsValue = this.getNodeParameter(
-								'contactImportProspects',
-								itemIndex,
-								{},
-							) as { prospect?: Array<IDataObject> };
-							const prospects = (prospectsValue.prospect ?? []).map((prospect) => {
-								const prospectData: IDataObject = {};
-								addIfNotEmpty(prospectData, 'FirstName', prospect.firstName);
-								addIfNotEmpty(prospectData, 'LastName', prospect.lastName);
-								addIfNotEmpty(prospectData, 'Email', prospect.email);
-								addIfNotEmpty(prospectData, 'Phone', prospect.phone);
-								addIfNotEmpty(prospectData, 'MobilePhone', prospect.mobilePhone);
-								addIfNotEmpty(prospectData, 'Title', prospect.title);
-								addIfNotEmpty(prospectData, 'Location', prospect.location);
-								addIfNotEmpty(prospectData, 'Linkedin', prospect.linkedin);
-								addIfNotEmpty(prospectData, 'Company', prospect.company);
-								addIfNotEmpty(prospectData, 'CompanyWebsite', prospect.companyWebsite);
-								addIfNotEmpty(prospectData, 'CompanyLinkedin', prospect.companyLinkedin);
-								addIfNotEmpty(prospectData, 'CompanyCountry', prospect.companyCountry);
-								addIfNotEmpty(prospectData, 'CompanyIndustry', prospect.companyIndustry);
-								addIfNotEmpty(prospectData, 'CompanyAnnualRevenue', prospect.companyAnnualRevenue);
-								const companyNumberOfEmployees = prospect.companyNumberOfEmployees as number;
-								if (companyNumberOfEmployees) {
-									prospectData.CompanyNumberOfEmployees = companyNumberOfEmployees;
-								}
-								if (prospect.externalValues && Object.keys(prospect.externalValues).length) {
-									prospectData.ExternalValues = prospect.externalValues;
-								}
-								if (
-									prospect.accountExternalValues &&
-									Object.keys(prospect.accountExternalValues).length
-								) {
-									prospectData.AccountExternalValues = prospect.accountExternalValues;
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
 								}
-								addIfNotEmpty(prospectData, 'Owner', prospect.owner);
-								addIfNotEmpty(prospectData, 'SalesNavigatorUrl', prospect.salesNavigatorUrl);
-								const listId = prospect.listId as number;
-								if (listId) {
-									prospectData.ListId = listId;
+								const userId = this.getNodeParameter('companyUpdateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
 								}
-								const strategyId = prospect.strategyId as number;
-								if (strategyId) {
-									prospectData.StrategyId = strategyId;
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+						} else if (operation === 'import') {
+							method = 'POST';
+							endpoint = `${endpoint}/import`;
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								const accountsValue = this.getNodeParameter(
+									'companyImportAccounts',
+									itemIndex,
+									{},
+								) as { account?: Array<IDataObject> };
+								const accounts = (accountsValue.account ?? []).map((account) => {
+									const accountData: IDataObject = {};
+									addIfNotEmpty(accountData, 'Name', account.name);
+									addIfNotEmpty(accountData, 'Website', account.website);
+									addIfNotEmpty(accountData, 'Industry', account.industry);
+									addIfNotEmpty(accountData, 'Country', account.country);
+									addIfNotEmpty(accountData, 'Phone', account.phone);
+									addIfNotEmpty(accountData, 'AnnualRevenue', account.annualRevenue);
+									addIfNotEmpty(accountData, 'Linkedin', account.linkedin);
+									const numberOfEmployees = account.numberOfEmployees as number;
+									if (numberOfEmployees) {
+										accountData.NumberOfEmployees = numberOfEmployees;
+									}
+									if (account.externalValues && Object.keys(account.externalValues).length) {
+										accountData.ExternalValues = account.externalValues;
+									}
+									const listId = account.listId as number;
+									if (listId) {
+										accountData.ListId = listId;
+									}
+									addIfNotEmpty(accountData, 'Owner', account.owner);
+									return accountData;
+								});
+								if (accounts.length) {
+									data.Accounts = accounts;
 								}
-								return prospectData;
-							});
-							if (prospects.length) {
-								data.Prospects = prospects;
+								Object.assign(data, getCompanyImportOptions(this, itemIndex));
 							}
-							addIfNotEmpty(
-								data,
-								'ImportType',
-								this.getNodeParameter('contactImportType', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'FileName',
-								this.getNodeParameter('contactImportFileName', itemIndex, ''),
-							);
-							if (this.getNodeParameter('contactImportFindEmail', itemIndex, false)) {
-								data.FindEmail = true;
-							}
-							if (this.getNodeParameter('contactImportFindLinkedin', itemIndex, false)) {
-								data.FindLinkedin = true;
-							}
-							if (this.getNodeParameter('contactImportFindPhone', itemIndex, false)) {
-								data.FindPhone = true;
-							}
-							if (this.getNodeParameter('contactImportVerifyEmail', itemIndex, false)) {
-								data.VerifyEmail = true;
-							}
-							const aiExternalPropertyIds = parseCsv(
-								this.getNodeParameter('contactImportAiExternalPropertyIds', itemIndex, '') as string,
-							);
-							if (aiExternalPropertyIds.length) {
-								data.AiExternalPropertiesIdsToGenerate = aiExternalPropertyIds.map((id) =>
-									parseInt(id, 10),
-								);
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					}
-					break;
-				}
-				case 'deal': {
-					endpoint = `${basePath}/Opportunities`;
-					if (operation === 'get') {
-						method = 'GET';
-						const objectId = this.getNodeParameter('objectId', itemIndex) as string;
-						endpoint = `${endpoint}/${objectId}`;
-						qs = getJsonParameter(this, 'includeOptions', itemIndex);
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
-						qs = { ...qs, ...includeOptions };
-					} else if (operation === 'search') {
-						method = 'POST';
-						endpoint = `${endpoint}/search`;
-						if (useRawJsonSearch) {
-							body = getJsonParameter(this, 'search', itemIndex);
-						} else {
-							const searchBody: IDataObject = {};
-							addIfNotEmpty(
-								searchBody,
-								'Name',
-								this.getNodeParameter('dealSearchName', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'AccountId',
-								this.getNodeParameter('dealSearchAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'UserId',
-								this.getNodeParameter('dealSearchUserId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Stage',
-								this.getNodeParameter('dealSearchStage', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Pipeline',
-								this.getNodeParameter('dealSearchPipeline', itemIndex, ''),
-							);
-							const objectIds = parseCsv(
-								this.getNodeParameter('dealSearchObjectIds', itemIndex, '') as string,
-							);
-							if (objectIds.length) {
-								searchBody.ObjectIds = objectIds;
-							}
-							const pagination: IDataObject = {};
-							addIfNotEmpty(
-								pagination,
-								'Limit',
-								this.getNodeParameter('dealSearchLimit', itemIndex, 50),
-							);
-							addIfNotEmpty(
-								pagination,
-								'Offset',
-								this.getNodeParameter('dealSearchOffset', itemIndex, 0),
-							);
-							if (Object.keys(pagination).length) {
-								searchBody.Pagination = pagination;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMin',
-								this.getNodeParameter('dealSearchCreatedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMax',
-								this.getNodeParameter('dealSearchCreatedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMin',
-								this.getNodeParameter('dealSearchLastModifiedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMax',
-								this.getNodeParameter('dealSearchLastModifiedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CloseDateMin',
-								this.getNodeParameter('dealSearchCloseDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CloseDateMax',
-								this.getNodeParameter('dealSearchCloseDateMax', itemIndex, ''),
-							);
-							if (this.getNodeParameter('dealSearchIsWon', itemIndex, false)) {
-								searchBody.IsWon = true;
-							}
-							if (this.getNodeParameter('dealSearchIsClosed', itemIndex, false)) {
-								searchBody.IsClosed = true;
-							}
-							const amountMin = this.getNodeParameter('dealSearchAmountMin', itemIndex, 0) as number;
-							if (amountMin) {
-								searchBody.AmountMin = amountMin;
-							}
-							const amountMax = this.getNodeParameter('dealSearchAmountMax', itemIndex, 0) as number;
-							if (amountMax) {
-								searchBody.AmountMax = amountMax;
-							}
-							if (this.getNodeParameter('dealSearchActive', itemIndex, false)) {
-								searchBody.Active = true;
-							}
-							const year = this.getNodeParameter('dealSearchYear', itemIndex, 0) as number;
-							if (year) {
-								searchBody.Year = year;
-							}
-							const externalProperties = getJsonParameter(
-								this,
-								'dealSearchExternalProperties',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalProperties).length) {
-								searchBody.ExternalProperties = externalProperties;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'Sort',
-								this.getNodeParameter('dealSearchSort', itemIndex, ''),
-							);
-							const includes: IDataObject = {};
-							if (this.getNodeParameter('dealSearchIncludeAccount', itemIndex, false)) {
-								includes.WithAccount = true;
-							}
-							if (Object.keys(includes).length) {
-								searchBody.Includes = includes;
-							}
-							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-							body = searchBody;
-						}
-					} else if (operation === 'create') {
-						method = 'POST';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'AccountId',
-								this.getNodeParameter('dealCreateAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Name',
-								this.getNodeParameter('dealCreateName', itemIndex, ''),
-							);
-							const amount = this.getNodeParameter('dealCreateAmount', itemIndex, 0) as number;
-							if (amount) {
-								data.Amount = amount;
-							}
-							addIfNotEmpty(
-								data,
-								'Stage',
-								this.getNodeParameter('dealCreateStage', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Pipeline',
-								this.getNodeParameter('dealCreatePipeline', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CloseDate',
-								this.getNodeParameter('dealCreateCloseDate', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Description',
-								this.getNodeParameter('dealCreateDescription', itemIndex, ''),
-							);
-							const externalValues = getJsonParameter(
-								this,
-								'dealCreateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							const userId = this.getNodeParameter('dealCreateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					} else if (operation === 'update') {
-						method = 'PATCH';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'AccountId',
-								this.getNodeParameter('dealUpdateAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'OpportunityId',
-								this.getNodeParameter('dealUpdateOpportunityId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Name',
-								this.getNodeParameter('dealUpdateName', itemIndex, ''),
-							);
-							const amount = this.getNodeParameter('dealUpdateAmount', itemIndex, 0) as number;
-							if (amount) {
-								data.Amount = amount;
-							}
-							addIfNotEmpty(
-								data,
-								'Stage',
-								this.getNodeParameter('dealUpdateStage', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'CloseDate',
-								this.getNodeParameter('dealUpdateCloseDate', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Description',
-								this.getNodeParameter('dealUpdateDescription', itemIndex, ''),
-							);
-							if (this.getNodeParameter('dealUpdateIsClosed', itemIndex, false)) {
-								data.IsClosed = true;
-							}
-							if (this.getNodeParameter('dealUpdateIsWon', itemIndex, false)) {
-								data.IsWon = true;
-							}
-							const externalValues = getJsonParameter(
-								this,
-								'dealUpdateExternalValues',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(externalValues).length) {
-								data.ExternalValues = externalValues;
-							}
-							const userId = this.getNodeParameter('dealUpdateUserId', itemIndex, 0) as number;
-							if (userId) {
-								data.UserId = userId;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
-					}
-					break;
-				}
-				case 'note': {
-					endpoint = `${basePath}/Notes`;
-					if (operation === 'get') {
-						method = 'GET';
-						const objectId = this.getNodeParameter('objectId', itemIndex) as string;
-						endpoint = `${endpoint}/${objectId}`;
-						qs = getJsonParameter(this, 'includeOptions', itemIndex);
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
-						qs = { ...qs, ...includeOptions };
-					} else if (operation === 'search') {
-						method = 'POST';
-						endpoint = `${endpoint}/search`;
-						if (useRawJsonSearch) {
-							body = getJsonParameter(this, 'search', itemIndex);
-						} else {
-							const searchBody: IDataObject = {};
-							addIfNotEmpty(
-								searchBody,
-								'DescriptionContains',
-								this.getNodeParameter('noteSearchDescriptionContains', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'AccountId',
-								this.getNodeParameter('noteSearchAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'OpportunityId',
-								this.getNodeParameter('noteSearchOpportunityId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'UserId',
-								this.getNodeParameter('noteSearchUserId', itemIndex, ''),
-							);
-							const objectIds = parseCsv(
-								this.getNodeParameter('noteSearchObjectIds', itemIndex, '') as string,
-							);
-							if (objectIds.length) {
-								searchBody.ObjectIds = objectIds;
-							}
-							const pagination: IDataObject = {};
-							addIfNotEmpty(
-								pagination,
-								'Limit',
-								this.getNodeParameter('noteSearchLimit', itemIndex, 50),
-							);
-							addIfNotEmpty(
-								pagination,
-								'Offset',
-								this.getNodeParameter('noteSearchOffset', itemIndex, 0),
-							);
-							if (Object.keys(pagination).length) {
-								searchBody.Pagination = pagination;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMin',
-								this.getNodeParameter('noteSearchCreatedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMax',
-								this.getNodeParameter('noteSearchCreatedDateMax', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMin',
-								this.getNodeParameter('noteSearchLastModifiedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'LastModifiedDateMax',
-								this.getNodeParameter('noteSearchLastModifiedDateMax', itemIndex, ''),
-							);
-							if (this.getNodeParameter('noteSearchActive', itemIndex, false)) {
-								searchBody.Active = true;
-							}
-							const includes: IDataObject = {};
-							if (this.getNodeParameter('noteSearchIncludeAccount', itemIndex, false)) {
-								includes.WithAccount = true;
-							}
-							if (this.getNodeParameter('noteSearchIncludeOpportunity', itemIndex, false)) {
-								includes.WithOpportunity = true;
-							}
-							if (this.getNodeParameter('noteSearchIncludeProspects', itemIndex, false)) {
-								includes.WithProspects = true;
-							}
-							if (Object.keys(includes).length) {
-								searchBody.Includes = includes;
-							}
-							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-							body = searchBody;
+							body = { data };
 						}
-					} else if (operation === 'create') {
-						method = 'POST';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'Description',
-								this.getNodeParameter('noteCreateDescription', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'AccountId',
-								this.getNodeParameter('noteCreateAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'OpportunityId',
-								this.getNodeParameter('noteCreateOpportunityId', itemIndex, ''),
-							);
-							const prospectIds = parseCsv(
-								this.getNodeParameter('noteCreateProspectIds', itemIndex, '') as string,
-							);
-							if (prospectIds.length) {
-								data.ProspectIds = prospectIds;
-							}
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
-						}
-						body = { data };
+						break;
 					}
-					break;
-				}
-				case 'task': {
-					endpoint = `${basePath}/Tasks`;
-					if (operation === 'search') {
-						method = 'POST';
-						endpoint = `${endpoint}/search`;
-						const withOpportunities = this.getNodeParameter(
-							'withOpportunities',
-							itemIndex,
-							false,
-						) as boolean;
-						qs = withOpportunities ? { withOpportunities } : {};
-						if (useRawJsonSearch) {
-							body = getJsonParameter(this, 'search', itemIndex);
-						} else {
-							const searchBody: IDataObject = {};
-							const limit = this.getNodeParameter('taskSearchLimit', itemIndex, 50) as number;
-							const offset = this.getNodeParameter('taskSearchOffset', itemIndex, 0) as number;
-							searchBody.Limit = limit;
-							searchBody.Offset = offset;
-							addIfNotEmpty(
-								searchBody,
-								'Date',
-								this.getNodeParameter('taskSearchDate', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'ProspectId',
-								this.getNodeParameter('taskSearchProspectId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'OpportunityId',
-								this.getNodeParameter('taskSearchOpportunityId', itemIndex, ''),
-							);
-							if (this.getNodeParameter('taskSearchCompleted', itemIndex, false)) {
-								searchBody.Completed = true;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'Type',
-								this.getNodeParameter('taskSearchType', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'Subtype',
-								this.getNodeParameter('taskSearchSubtype', itemIndex, ''),
-							);
-							const types = this.getNodeParameter('taskSearchTypes', itemIndex, []) as string[];
-							if (types.length) {
-								searchBody.Types = types;
-							}
-							addIfNotEmpty(
-								searchBody,
-								'Since',
-								this.getNodeParameter('taskSearchSince', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'To',
-								this.getNodeParameter('taskSearchTo', itemIndex, ''),
-							);
-							if (this.getNodeParameter('taskSearchAutomatic', itemIndex, false)) {
-								searchBody.Automatic = true;
-							}
-							if (this.getNodeParameter('taskSearchHasAutomationError', itemIndex, false)) {
-								searchBody.HasAutomationError = true;
-							}
-							if (this.getNodeParameter('taskSearchHasOpportunity', itemIndex, false)) {
-								searchBody.HasOpportunity = true;
+					case 'contact': {
+						endpoint = `${basePath}/Prospects`;
+						if (operation === 'get') {
+							method = 'GET';
+							const objectId = this.getNodeParameter('objectId', itemIndex) as string;
+							endpoint = `${endpoint}/${objectId}`;
+							qs = getJsonParameter(this, 'includeOptions', itemIndex);
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
+							qs = { ...qs, ...includeOptions };
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'Name',
+									this.getNodeParameter('contactSearchName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Title',
+									this.getNodeParameter('contactSearchTitle', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Country',
+									this.getNodeParameter('contactSearchCountry', itemIndex, ''),
+								);
+								const objectIds = parseCsv(
+									this.getNodeParameter('contactSearchObjectIds', itemIndex, '') as string,
+								);
+								if (objectIds.length) {
+									searchBody.ObjectIds = objectIds;
+								}
+								const userId = this.getNodeParameter('contactSearchUserId', itemIndex, 0) as number;
+								if (userId) {
+									searchBody.UserId = userId;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'Industry',
+									this.getNodeParameter('contactSearchIndustry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Location',
+									this.getNodeParameter('contactSearchLocation', itemIndex, ''),
+								);
+								const actualStatus = this.getNodeParameter(
+									'contactSearchActualStatus',
+									itemIndex,
+									[],
+								) as string[];
+								if (actualStatus.length) {
+									searchBody.ActualStatus = actualStatus;
+								}
+								const accountStatus = this.getNodeParameter(
+									'contactSearchAccountStatus',
+									itemIndex,
+									[],
+								) as string[];
+								if (accountStatus.length) {
+									searchBody.AccountStatus = accountStatus;
+								}
+								const externalProperties = getJsonParameter(
+									this,
+									'contactSearchExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(externalProperties).length) {
+									searchBody.ExternalProperties = externalProperties;
+								}
+								const externalPropertyNumericFilters = getJsonParameter(
+									this,
+									'contactSearchExternalPropertyNumericFilters',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(externalPropertyNumericFilters).length) {
+									searchBody.ExternalPropertyNumericFilters = externalPropertyNumericFilters;
+								}
+								const externalPropertyEmptyIds = parseCsv(
+									this.getNodeParameter(
+										'contactSearchExternalPropertyEmptyIds',
+										itemIndex,
+										'',
+									) as string,
+								);
+								if (externalPropertyEmptyIds.length) {
+									searchBody.ExternalPropertyEmptyIds = externalPropertyEmptyIds.map((id) =>
+										parseInt(id, 10),
+									);
+								}
+								const accountExternalProperties = getJsonParameter(
+									this,
+									'contactSearchAccountExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(accountExternalProperties).length) {
+									searchBody.AccountExternalProperties = accountExternalProperties;
+								}
+								const accountExternalPropertyNumericFilters = getJsonParameter(
+									this,
+									'contactSearchAccountExternalPropertyNumericFilters',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(accountExternalPropertyNumericFilters).length) {
+									searchBody.AccountExternalPropertyNumericFilters =
+										accountExternalPropertyNumericFilters;
+								}
+								const accountExternalPropertyEmptyIds = parseCsv(
+									this.getNodeParameter(
+										'contactSearchAccountExternalPropertyEmptyIds',
+										itemIndex,
+										'',
+									) as string,
+								);
+								if (accountExternalPropertyEmptyIds.length) {
+									searchBody.AccountExternalPropertyEmptyIds = accountExternalPropertyEmptyIds.map(
+										(id) => parseInt(id, 10),
+									);
+								}
+								const numberOfEmployeesMin = this.getNodeParameter(
+									'contactSearchNumberOfEmployeesMin',
+									itemIndex,
+									0,
+								) as number;
+								if (numberOfEmployeesMin) {
+									searchBody.NumberOfEmployeesMin = numberOfEmployeesMin;
+								}
+								const numberOfEmployeesMax = this.getNodeParameter(
+									'contactSearchNumberOfEmployeesMax',
+									itemIndex,
+									0,
+								) as number;
+								if (numberOfEmployeesMax) {
+									searchBody.NumberOfEmployeesMax = numberOfEmployeesMax;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CurrentSolution',
+									this.getNodeParameter('contactSearchCurrentSolution', itemIndex, ''),
+								);
+								if (this.getNodeParameter('contactSearchNoUser', itemIndex, false)) {
+									searchBody.NoUser = true;
+								}
+								if (this.getNodeParameter('contactSearchInSequence', itemIndex, false)) {
+									searchBody.InSequence = true;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'AccountId',
+									this.getNodeParameter('contactSearchAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMin',
+									this.getNodeParameter('contactSearchCreatedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMax',
+									this.getNodeParameter('contactSearchCreatedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastActivityDateMin',
+									this.getNodeParameter('contactSearchLastActivityDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastActivityDateMax',
+									this.getNodeParameter('contactSearchLastActivityDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMin',
+									this.getNodeParameter('contactSearchLastModifiedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMax',
+									this.getNodeParameter('contactSearchLastModifiedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Sort',
+									this.getNodeParameter('contactSearchSort', itemIndex, ''),
+								);
+								if (this.getNodeParameter('contactSearchIsPhoneValid', itemIndex, false)) {
+									searchBody.IsPhoneValid = true;
+								}
+								const verificationStatuses = this.getNodeParameter(
+									'contactSearchVerificationStatuses',
+									itemIndex,
+									[],
+								) as string[];
+								if (verificationStatuses.length) {
+									searchBody.VerificationStatuses = verificationStatuses;
+								}
+								if (this.getNodeParameter('contactSearchFromContact', itemIndex, false)) {
+									searchBody.FromContact = true;
+								}
+								if (this.getNodeParameter('contactSearchHasLinkedin', itemIndex, false)) {
+									searchBody.HasLinkedin = true;
+								}
+								if (this.getNodeParameter('contactSearchHasEmail', itemIndex, false)) {
+									searchBody.HasEmail = true;
+								}
+								if (this.getNodeParameter('contactSearchHasPhone', itemIndex, false)) {
+									searchBody.HasPhone = true;
+								}
+								if (this.getNodeParameter('contactSearchHasMobilePhone', itemIndex, false)) {
+									searchBody.HasMobilePhone = true;
+								}
+								if (this.getNodeParameter('contactSearchHasActivities', itemIndex, false)) {
+									searchBody.HasActivities = true;
+								}
+								if (this.getNodeParameter('contactSearchHasReplies', itemIndex, false)) {
+									searchBody.HasReplies = true;
+								}
+								if (this.getNodeParameter('contactSearchHasEmailsOpened', itemIndex, false)) {
+									searchBody.HasEmailsOpened = true;
+								}
+								if (this.getNodeParameter('contactSearchHasConnectedCalls', itemIndex, false)) {
+									searchBody.HasConnectedCalls = true;
+								}
+								if (this.getNodeParameter('contactSearchHasClickedLinks', itemIndex, false)) {
+									searchBody.HasClickedLinks = true;
+								}
+								if (this.getNodeParameter('contactSearchHasActiveTasks', itemIndex, false)) {
+									searchBody.HasActiveTasks = true;
+								}
+								if (this.getNodeParameter('contactSearchOptedOut', itemIndex, false)) {
+									searchBody.OptedOut = true;
+								}
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('contactSearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('contactSearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create' || operation === 'upsert') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'FirstName',
+									this.getNodeParameter('contactCreateFirstName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'LastName',
+									this.getNodeParameter('contactCreateLastName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Phone',
+									this.getNodeParameter('contactCreatePhone', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'MobilePhone',
+									this.getNodeParameter('contactCreateMobilePhone', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Email',
+									this.getNodeParameter('contactCreateEmail', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Title',
+									this.getNodeParameter('contactCreateTitle', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Location',
+									this.getNodeParameter('contactCreateLocation', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Linkedin',
+									this.getNodeParameter('contactCreateLinkedin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'LinkedinLeadId',
+									this.getNodeParameter('contactCreateLinkedinLeadId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'G2PublicId',
+									this.getNodeParameter('contactCreateG2PublicId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Company',
+									this.getNodeParameter('contactCreateCompany', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CompanyLinkedin',
+									this.getNodeParameter('contactCreateCompanyLinkedin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CompanyLinkedinNumericId',
+									this.getNodeParameter('contactCreateCompanyLinkedinNumericId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CompanyWebsite',
+									this.getNodeParameter('contactCreateCompanyWebsite', itemIndex, ''),
+								);
+								const companyNumberOfEmployees = this.getNodeParameter(
+									'contactCreateCompanyNumberOfEmployees',
+									itemIndex,
+									0,
+								) as number;
+								if (companyNumberOfEmployees) {
+									data.CompanyNumberOfEmployees = companyNumberOfEmployees;
+								}
+								addIfNotEmpty(
+									data,
+									'CompanyIndustry',
+									this.getNodeParameter('contactCreateCompanyIndustry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CompanyCountry',
+									this.getNodeParameter('contactCreateCompanyCountry', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CompanyAnnualRevenue',
+									this.getNodeParameter('contactCreateCompanyAnnualRevenue', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('contactCreateAccountId', itemIndex, ''),
+								);
+								if (this.getNodeParameter('contactCreateCreateAsLead', itemIndex, false)) {
+									data.CreateAsLead = true;
+								}
+								const externalValues = getExternalValues(
+									this,
+									'contactCreateExternalValues',
+									'contactCreateExternalProperties',
+									itemIndex,
+								);
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
+								}
+								const strategyId = this.getNodeParameter(
+									'contactCreateStrategyId',
+									itemIndex,
+									0,
+								) as number;
+								if (strategyId) {
+									data.StrategyId = strategyId;
+								}
+								const generateAiVariables = getJsonParameter(
+									this,
+									'contactCreateGenerateAiVariables',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(generateAiVariables).length) {
+									data.GenerateAiVariables = generateAiVariables;
+								}
+								const userId = this.getNodeParameter('contactCreateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
+								}
+								addIfNotEmpty(
+									data,
+									'CountryCode',
+									this.getNodeParameter('contactCreateCountryCode', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'TimeZone',
+									this.getNodeParameter('contactCreateTimeZone', itemIndex, ''),
+								);
+								const listId = this.getNodeParameter('contactCreateListId', itemIndex, 0) as number;
+								if (listId) {
+									data.ListId = listId;
+								}
+								if (this.getNodeParameter('contactCreateCreateInCrm', itemIndex, false)) {
+									data.CreateInCrm = true;
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
 							}
-							if (this.getNodeParameter('taskSearchFromSequence', itemIndex, false)) {
-								searchBody.FromSequence = true;
+							const scrapeOptions = getJsonParameter(this, 'scrapeOptions', itemIndex, {});
+							body = { data, ...(Object.keys(scrapeOptions).length ? { scrapeOptions } : {}) };
+							if (operation === 'upsert') {
+								const scopeToAccount = this.getNodeParameter(
+									'contactUpsertScopeToAccount',
+									itemIndex,
+									false,
+								) as boolean;
+								if (scopeToAccount && !data.AccountId) {
+									throw new NodeOperationError(
+										this.getNode(),
+										'Account ID is required when matching within an account',
+										{ itemIndex },
+									);
+								}
+								const matches = await findUpsertMatches.call(
+									this,
+									upsertCache,
+									endpoint,
+									CONTACT_UPSERT_KEYS,
+									this.getNodeParameter('contactUpsertMatchBy', itemIndex, []) as string[],
+									data,
+									scopeToAccount ? { AccountId: data.AccountId } : {},
+									itemIndex,
+									retryOptions,
+								);
+								const multipleMatches = this.getNodeParameter(
+									'contactUpsertMultipleMatches',
+									itemIndex,
+									'error',
+								) as string;
+								if (matches.length > 1 && multipleMatches === 'error') {
+									const matchIds = matches.map((record) =>
+										getRecordValue(record, ['objectId', 'prospectId', 'id']),
+									);
+									throw new NodeOperationError(
+										this.getNode(),
+										`Found ${matches.length} matching contacts`,
+										{ itemIndex, description: `Matching contact IDs: ${matchIds.join(', ')}` },
+									);
+								}
+								const [match] = [...matches].sort((a, b) => getCreatedTime(b) - getCreatedTime(a));
+								upsertAction = match ? 'updated' : 'created';
+								if (match) {
+									method = 'PATCH';
+									const updateData: IDataObject = {
+										...data,
+										ProspectId: getRecordValue(match, ['objectId', 'prospectId', 'id']) as string,
+									};
+									for (const field of CONTACT_CREATE_ONLY_FIELDS) {
+										delete updateData[field];
+									}
+									body = { data: updateData };
+								}
 							}
-							if (this.getNodeParameter('taskSearchFromCrm', itemIndex, false)) {
-								searchBody.FromCrm = true;
+						} else if (operation === 'update') {
+							method = 'PATCH';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'FirstName',
+									this.getNodeParameter('contactUpdateFirstName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'LastName',
+									this.getNodeParameter('contactUpdateLastName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Phone',
+									this.getNodeParameter('contactUpdatePhone', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'MobilePhone',
+									this.getNodeParameter('contactUpdateMobilePhone', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Email',
+									this.getNodeParameter('contactUpdateEmail', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Title',
+									this.getNodeParameter('contactUpdateTitle', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Location',
+									this.getNodeParameter('contactUpdateLocation', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Linkedin',
+									this.getNodeParameter('contactUpdateLinkedin', itemIndex, ''),
+								);
+								const externalValues = getExternalValues(
+									this,
+									'contactUpdateExternalValues',
+									'contactUpdateExternalProperties',
+									itemIndex,
+								);
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
+								}
+								const userId = this.getNodeParameter('contactUpdateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
+								}
+								addIfNotEmpty(
+									data,
+									'CountryCode',
+									this.getNodeParameter('contactUpdateCountryCode', itemIndex, ''),
+								);
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+						} else if (operation === 'import') {
+							method = 'POST';
+							endpoint = `${endpoint}/import`;
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								const prospectsValue = this.getNodeParameter(
+									'contactImportProspects',
+									itemIndex,
+									{},
+								) as { prospect?: Array<IDataObject> };
+								const prospects = (prospectsValue.prospect ?? []).map((prospect) => {
+									const prospectData: IDataObject = {};
+									addIfNotEmpty(prospectData, 'FirstName', prospect.firstName);
+									addIfNotEmpty(prospectData, 'LastName', prospect.lastName);
+									addIfNotEmpty(prospectData, 'Email', prospect.email);
+									addIfNotEmpty(prospectData, 'Phone', prospect.phone);
+									addIfNotEmpty(prospectData, 'MobilePhone', prospect.mobilePhone);
+									addIfNotEmpty(prospectData, 'Title', prospect.title);
+									addIfNotEmpty(prospectData, 'Location', prospect.location);
+									addIfNotEmpty(prospectData, 'Linkedin', prospect.linkedin);
+									addIfNotEmpty(prospectData, 'Company', prospect.company);
+									addIfNotEmpty(prospectData, 'CompanyWebsite', prospect.companyWebsite);
+									addIfNotEmpty(prospectData, 'CompanyLinkedin', prospect.companyLinkedin);
+									addIfNotEmpty(prospectData, 'CompanyCountry', prospect.companyCountry);
+									addIfNotEmpty(prospectData, 'CompanyIndustry', prospect.companyIndustry);
+									addIfNotEmpty(prospectData, 'CompanyAnnualRevenue', prospect.companyAnnualRevenue);
+									const companyNumberOfEmployees = prospect.companyNumberOfEmployees as number;
+									if (companyNumberOfEmployees) {
+										prospectData.CompanyNumberOfEmployees = companyNumberOfEmployees;
+									}
+									if (prospect.externalValues && Object.keys(prospect.externalValues).length) {
+										prospectData.ExternalValues = prospect.externalValues;
+									}
+									if (
+										prospect.accountExternalValues &&
+										Object.keys(prospect.accountExternalValues).length
+									) {
+										prospectData.AccountExternalValues = prospect.accountExternalValues;
+									}
+									addIfNotEmpty(prospectData, 'Owner', prospect.owner);
+									addIfNotEmpty(prospectData, 'SalesNavigatorUrl', prospect.salesNavigatorUrl);
+									const listId = prospect.listId as number;
+									if (listId) {
+										prospectData.ListId = listId;
+									}
+									const strategyId = prospect.strategyId as number;
+									if (strategyId) {
+										prospectData.StrategyId = strategyId;
+									}
+									return prospectData;
+								});
+								if (prospects.length) {
+									data.Prospects = prospects;
+								}
+								Object.assign(data, getContactImportOptions(this, itemIndex));
 							}
-							addIfNotEmpty(
-								searchBody,
-								'AccountId',
-								this.getNodeParameter('taskSearchAccountId', itemIndex, ''),
-							);
-							const prospectListId = this.getNodeParameter(
-								'taskSearchProspectListId',
-								itemIndex,
-								0,
-							) as number;
-							if (prospectListId) {
-								searchBody.ProspectListId = prospectListId;
+							body = { data };
+						}
+						break;
+					}
+					case 'deal': {
+						endpoint = `${basePath}/Opportunities`;
+						if (operation === 'get') {
+							method = 'GET';
+							const objectId = this.getNodeParameter('objectId', itemIndex) as string;
+							endpoint = `${endpoint}/${objectId}`;
+							qs = getJsonParameter(this, 'includeOptions', itemIndex);
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
+							qs = { ...qs, ...includeOptions };
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'Name',
+									this.getNodeParameter('dealSearchName', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'AccountId',
+									this.getNodeParameter('dealSearchAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'UserId',
+									this.getNodeParameter('dealSearchUserId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Stage',
+									this.getNodeParameter('dealSearchStage', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Pipeline',
+									this.getNodeParameter('dealSearchPipeline', itemIndex, ''),
+								);
+								const objectIds = parseCsv(
+									this.getNodeParameter('dealSearchObjectIds', itemIndex, '') as string,
+								);
+								if (objectIds.length) {
+									searchBody.ObjectIds = objectIds;
+								}
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('dealSearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('dealSearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMin',
+									this.getNodeParameter('dealSearchCreatedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMax',
+									this.getNodeParameter('dealSearchCreatedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMin',
+									this.getNodeParameter('dealSearchLastModifiedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMax',
+									this.getNodeParameter('dealSearchLastModifiedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CloseDateMin',
+									this.getNodeParameter('dealSearchCloseDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CloseDateMax',
+									this.getNodeParameter('dealSearchCloseDateMax', itemIndex, ''),
+								);
+								if (this.getNodeParameter('dealSearchIsWon', itemIndex, false)) {
+									searchBody.IsWon = true;
+								}
+								if (this.getNodeParameter('dealSearchIsClosed', itemIndex, false)) {
+									searchBody.IsClosed = true;
+								}
+								const amountMin = this.getNodeParameter('dealSearchAmountMin', itemIndex, 0) as number;
+								if (amountMin) {
+									searchBody.AmountMin = amountMin;
+								}
+								const amountMax = this.getNodeParameter('dealSearchAmountMax', itemIndex, 0) as number;
+								if (amountMax) {
+									searchBody.AmountMax = amountMax;
+								}
+								if (this.getNodeParameter('dealSearchActive', itemIndex, false)) {
+									searchBody.Active = true;
+								}
+								const year = this.getNodeParameter('dealSearchYear', itemIndex, 0) as number;
+								if (year) {
+									searchBody.Year = year;
+								}
+								const externalProperties = getJsonParameter(
+									this,
+									'dealSearchExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(externalProperties).length) {
+									searchBody.ExternalProperties = externalProperties;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'Sort',
+									this.getNodeParameter('dealSearchSort', itemIndex, ''),
+								);
+								const includes: IDataObject = {};
+								if (this.getNodeParameter('dealSearchIncludeAccount', itemIndex, false)) {
+									includes.WithAccount = true;
+								}
+								if (Object.keys(includes).length) {
+									searchBody.Includes = includes;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('dealCreateAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Name',
+									this.getNodeParameter('dealCreateName', itemIndex, ''),
+								);
+								const amount = this.getNodeParameter('dealCreateAmount', itemIndex, 0) as number;
+								if (amount) {
+									data.Amount = amount;
+								}
+								addIfNotEmpty(
+									data,
+									'Stage',
+									this.getNodeParameter('dealCreateStage', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Pipeline',
+									this.getNodeParameter('dealCreatePipeline', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CloseDate',
+									this.getNodeParameter('dealCreateCloseDate', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Description',
+									this.getNodeParameter('dealCreateDescription', itemIndex, ''),
+								);
+								const externalValues = getExternalValues(
+									this,
+									'dealCreateExternalValues',
+									'dealCreateExternalProperties',
+									itemIndex,
+								);
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
+								}
+								const userId = this.getNodeParameter('dealCreateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+							if (data.Stage && data.Pipeline) {
+								pipelines ??= await getPipelines.call(this, basePath, retryOptions);
+								assertStageInPipeline(
+									this,
+									pipelines,
+									String(data.Pipeline),
+									String(data.Stage),
+									itemIndex,
+								);
 							}
-							const leadListId = this.getNodeParameter(
-								'taskSearchLeadListId',
-								itemIndex,
-								0,
-							) as number;
-							if (leadListId) {
-								searchBody.LeadListId = leadListId;
+						} else if (operation === 'update') {
+							method = 'PATCH';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('dealUpdateAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'OpportunityId',
+									this.getNodeParameter('dealUpdateOpportunityId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Name',
+									this.getNodeParameter('dealUpdateName', itemIndex, ''),
+								);
+								const amount = this.getNodeParameter('dealUpdateAmount', itemIndex, 0) as number;
+								if (amount) {
+									data.Amount = amount;
+								}
+								addIfNotEmpty(
+									data,
+									'Stage',
+									this.getNodeParameter('dealUpdateStage', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'CloseDate',
+									this.getNodeParameter('dealUpdateCloseDate', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Description',
+									this.getNodeParameter('dealUpdateDescription', itemIndex, ''),
+								);
+								if (this.getNodeParameter('dealUpdateIsClosed', itemIndex, false)) {
+									data.IsClosed = true;
+								}
+								if (this.getNodeParameter('dealUpdateIsWon', itemIndex, false)) {
+									data.IsWon = true;
+								}
+								const externalValues = getExternalValues(
+									this,
+									'dealUpdateExternalValues',
+									'dealUpdateExternalProperties',
+									itemIndex,
+								);
+								if (Object.keys(externalValues).length) {
+									data.ExternalValues = externalValues;
+								}
+								const userId = this.getNodeParameter('dealUpdateUserId', itemIndex, 0) as number;
+								if (userId) {
+									data.UserId = userId;
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+							if (data.Stage && data.OpportunityId) {
+								const deal = (await cronoApiRequest.call(
+									this,
+									'GET',
+									`${endpoint}/${data.OpportunityId}`,
+									{},
+									undefined,
+									retryOptions,
+								)) as IDataObject;
+								const dealRecord = (getRecordValue(deal, ['data']) as IDataObject) ?? deal;
+								const dealPipeline = getRecordValue(dealRecord, ['pipeline']);
+								const pipelineValue =
+									dealPipeline && typeof dealPipeline === 'object'
+										? getPipelineValue(dealPipeline as IDataObject)
+										: dealPipeline;
+								if (pipelineValue) {
+									pipelines ??= await getPipelines.call(this, basePath, retryOptions);
+									assertStageInPipeline(
+										this,
+										pipelines,
+										String(pipelineValue),
+										String(data.Stage),
+										itemIndex,
+									);
+								}
 							}
-							const accountListId = this.getNodeParameter(
-								'taskSearchAccountListId',
-								itemIndex,
-								0,
-							) as number;
-							if (accountListId) {
-								searchBody.AccountListId = accountListId;
+						} else if (operation === 'import') {
+							method = 'POST';
+							endpoint = `${endpoint}/import`;
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								const opportunitiesValue = this.getNodeParameter(
+									'dealImportOpportunities',
+									itemIndex,
+									{},
+								) as { opportunity?: Array<IDataObject> };
+								const opportunities = (opportunitiesValue.opportunity ?? []).map((opportunity) => {
+									const opportunityData: IDataObject = {};
+									addIfNotEmpty(opportunityData, 'AccountId', opportunity.accountId);
+									addIfNotEmpty(opportunityData, 'AccountName', opportunity.accountName);
+									addIfNotEmpty(opportunityData, 'AccountWebsite', opportunity.accountWebsite);
+									addIfNotEmpty(opportunityData, 'AccountLinkedin', opportunity.accountLinkedin);
+									addIfNotEmpty(opportunityData, 'Name', opportunity.name);
+									addIfNotEmpty(opportunityData, 'Pipeline', opportunity.pipeline);
+									addIfNotEmpty(opportunityData, 'Stage', opportunity.stage);
+									const amount = opportunity.amount as number;
+									if (amount) {
+										opportunityData.Amount = amount;
+									}
+									addIfNotEmpty(opportunityData, 'CloseDate', opportunity.closeDate);
+									addIfNotEmpty(opportunityData, 'Description', opportunity.description);
+									if (
+										opportunity.externalValues &&
+										Object.keys(opportunity.externalValues).length
+									) {
+										opportunityData.ExternalValues = opportunity.externalValues;
+									}
+									addIfNotEmpty(opportunityData, 'Owner', opportunity.owner);
+									return opportunityData;
+								});
+								for (const opportunity of opportunities) {
+									if (opportunity.Stage && opportunity.Pipeline) {
+										pipelines ??= await getPipelines.call(this, basePath, retryOptions);
+										assertStageInPipeline(
+											this,
+											pipelines,
+											String(opportunity.Pipeline),
+											String(opportunity.Stage),
+											itemIndex,
+										);
+									}
+								}
+								if (opportunities.length) {
+									data.Opportunities = opportunities;
+								}
+								Object.assign(data, getDealImportOptions(this, itemIndex));
 							}
-							const strategyId = this.getNodeParameter(
-								'taskSearchStrategyId',
-								itemIndex,
-								0,
-							) as number;
-							if (strategyId) {
-								searchBody.StrategyId = strategyId;
+							body = { data };
+						}
+						break;
+					}
+					case 'note': {
+						endpoint = `${basePath}/Notes`;
+						if (operation === 'get') {
+							method = 'GET';
+							const objectId = this.getNodeParameter('objectId', itemIndex) as string;
+							endpoint = `${endpoint}/${objectId}`;
+							qs = getJsonParameter(this, 'includeOptions', itemIndex);
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
+							qs = { ...qs, ...includeOptions };
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'DescriptionContains',
+									this.getNodeParameter('noteSearchDescriptionContains', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'AccountId',
+									this.getNodeParameter('noteSearchAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'OpportunityId',
+									this.getNodeParameter('noteSearchOpportunityId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'UserId',
+									this.getNodeParameter('noteSearchUserId', itemIndex, ''),
+								);
+								const objectIds = parseCsv(
+									this.getNodeParameter('noteSearchObjectIds', itemIndex, '') as string,
+								);
+								if (objectIds.length) {
+									searchBody.ObjectIds = objectIds;
+								}
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('noteSearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('noteSearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMin',
+									this.getNodeParameter('noteSearchCreatedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMax',
+									this.getNodeParameter('noteSearchCreatedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMin',
+									this.getNodeParameter('noteSearchLastModifiedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMax',
+									this.getNodeParameter('noteSearchLastModifiedDateMax', itemIndex, ''),
+								);
+								if (this.getNodeParameter('noteSearchActive', itemIndex, false)) {
+									searchBody.Active = true;
+								}
+								const includes: IDataObject = {};
+								if (this.getNodeParameter('noteSearchIncludeAccount', itemIndex, false)) {
+									includes.WithAccount = true;
+								}
+								if (this.getNodeParameter('noteSearchIncludeOpportunity', itemIndex, false)) {
+									includes.WithOpportunity = true;
+								}
+								if (this.getNodeParameter('noteSearchIncludeProspects', itemIndex, false)) {
+									includes.WithProspects = true;
+								}
+								if (Object.keys(includes).length) {
+									searchBody.Includes = includes;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'Description',
+									formatNoteDescription(
+										this.getNodeParameter('noteCreateDescription', itemIndex, '') as string,
+										this.getNodeParameter('noteInputFormat', itemIndex, 'html') as string,
+									),
+								);
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('noteCreateAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'OpportunityId',
+									this.getNodeParameter('noteCreateOpportunityId', itemIndex, ''),
+								);
+								const prospectIds = parseCsv(
+									this.getNodeParameter('noteCreateProspectIds', itemIndex, '') as string,
+								);
+								if (prospectIds.length) {
+									data.ProspectIds = prospectIds;
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+						} else if (operation === 'update') {
+							method = 'PATCH';
+							const noteId = this.getNodeParameter('noteUpdateNoteId', itemIndex) as string;
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							data.NoteId = noteId;
+							if (!useRawJsonData) {
+								let description = formatNoteDescription(
+									this.getNodeParameter('noteUpdateDescription', itemIndex, '') as string,
+									this.getNodeParameter('noteInputFormat', itemIndex, 'html') as string,
+								);
+								if (this.getNodeParameter('noteUpdateMode', itemIndex, 'append') === 'append') {
+									const note = getResponseRecord(
+										await cronoApiRequest.call(
+											this,
+											'GET',
+											`${endpoint}/${noteId}`,
+											{},
+											undefined,
+											retryOptions,
+										),
+									);
+									const currentDescription = getRecordValue(note, ['description']);
+									if (currentDescription) {
+										description = `${String(currentDescription)}<br>${description}`;
+									}
+								}
+								data.Description = description;
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
 							}
-							addIfNotEmpty(
-								searchBody,
-								'SortBy',
-								this.getNodeParameter('taskSearchSortBy', itemIndex, ''),
-							);
-							const accountExternalProperties = getJsonParameter(
-								this,
-								'taskSearchAccountExternalProperties',
+							body = { data };
+						}
+						break;
+					}
+					case 'task': {
+						endpoint = `${basePath}/Tasks`;
+						if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							const withOpportunities = this.getNodeParameter(
+								'withOpportunities',
 								itemIndex,
-								{},
-							);
-							if (Object.keys(accountExternalProperties).length) {
-								searchBody.AccountExternalProperties = accountExternalProperties;
-							}
-							const prospectExternalProperties = getJsonParameter(
-								this,
-								'taskSearchProspectExternalProperties',
+								false,
+							) as boolean;
+							qs = withOpportunities ? { withOpportunities } : {};
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								const limit = this.getNodeParameter('taskSearchLimit', itemIndex, 50) as number;
+								const offset = this.getNodeParameter('taskSearchOffset', itemIndex, 0) as number;
+								searchBody.Limit = limit;
+								searchBody.Offset = offset;
+								addIfNotEmpty(
+									searchBody,
+									'Date',
+									this.getNodeParameter('taskSearchDate', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'ProspectId',
+									this.getNodeParameter('taskSearchProspectId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'OpportunityId',
+									this.getNodeParameter('taskSearchOpportunityId', itemIndex, ''),
+								);
+								if (this.getNodeParameter('taskSearchCompleted', itemIndex, false)) {
+									searchBody.Completed = true;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'Type',
+									this.getNodeParameter('taskSearchType', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'Subtype',
+									this.getNodeParameter('taskSearchSubtype', itemIndex, ''),
+								);
+								const types = this.getNodeParameter('taskSearchTypes', itemIndex, []) as string[];
+								if (types.length) {
+									searchBody.Types = types;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'Since',
+									this.getNodeParameter('taskSearchSince', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'To',
+									this.getNodeParameter('taskSearchTo', itemIndex, ''),
+								);
+								if (this.getNodeParameter('taskSearchAutomatic', itemIndex, false)) {
+									searchBody.Automatic = true;
+								}
+								if (this.getNodeParameter('taskSearchHasAutomationError', itemIndex, false)) {
+									searchBody.HasAutomationError = true;
+								}
+								if (this.getNodeParameter('taskSearchHasOpportunity', itemIndex, false)) {
+									searchBody.HasOpportunity = true;
+								}
+								if (this.getNodeParameter('taskSearchFromSequence', itemIndex, false)) {
+									searchBody.FromSequence = true;
+								}
+								if (this.getNodeParameter('taskSearchFromCrm', itemIndex, false)) {
+									searchBody.FromCrm = true;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'AccountId',
+									this.getNodeParameter('taskSearchAccountId', itemIndex, ''),
+								);
+								const prospectListId = this.getNodeParameter(
+									'taskSearchProspectListId',
+									itemIndex,
+									0,
+								) as number;
+								if (prospectListId) {
+									searchBody.ProspectListId = prospectListId;
+								}
+								const leadListId = this.getNodeParameter(
+									'taskSearchLeadListId',
+									itemIndex,
+									0,
+								) as number;
+								if (leadListId) {
+									searchBody.LeadListId = leadListId;
+								}
+								const accountListId = this.getNodeParameter(
+									'taskSearchAccountListId',
+									itemIndex,
+									0,
+								) as number;
+								if (accountListId) {
+									searchBody.AccountListId = accountListId;
+								}
+								const strategyId = this.getNodeParameter(
+									'taskSearchStrategyId',
+									itemIndex,
+									0,
+								) as number;
+								if (strategyId) {
+									searchBody.StrategyId = strategyId;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'SortBy',
+									this.getNodeParameter('taskSearchSortBy', itemIndex, ''),
+								);
+								const accountExternalProperties = getJsonParameter(
+									this,
+									'taskSearchAccountExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(accountExternalProperties).length) {
+									searchBody.AccountExternalProperties = accountExternalProperties;
+								}
+								const prospectExternalProperties = getJsonParameter(
+									this,
+									'taskSearchProspectExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(prospectExternalProperties).length) {
+									searchBody.ProspectExternalProperties = prospectExternalProperties;
+								}
+								const leadExternalProperties = getJsonParameter(
+									this,
+									'taskSearchLeadExternalProperties',
+									itemIndex,
+									{},
+								);
+								if (Object.keys(leadExternalProperties).length) {
+									searchBody.LeadExternalProperties = leadExternalProperties;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('taskCreateAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'ProspectId',
+									this.getNodeParameter('taskCreateProspectId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Type',
+									this.getNodeParameter('taskCreateType', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Subtype',
+									this.getNodeParameter('taskCreateSubtype', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'ActivityDate',
+									this.getNodeParameter('taskCreateActivityDate', itemIndex, ''),
+								);
+								const templateId = this.getNodeParameter('taskCreateTemplateId', itemIndex, 0) as number;
+								if (templateId) {
+									data.TemplateId = templateId;
+								}
+								if (this.getNodeParameter('taskCreateAutomatic', itemIndex, false)) {
+									data.Automatic = true;
+								}
+								addIfNotEmpty(
+									data,
+									'OpportunityId',
+									this.getNodeParameter('taskCreateOpportunityId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Subject',
+									this.getNodeParameter('taskCreateSubject', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Description',
+									this.getNodeParameter('taskCreateDescription', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'PersonalizedSubject',
+									this.getNodeParameter('taskCreatePersonalizedSubject', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'PersonalizedContent',
+									this.getNodeParameter('taskCreatePersonalizedContent', itemIndex, ''),
+								);
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+						} else if (operation === 'update') {
+							method = 'PATCH';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							addIfNotEmpty(data, 'TaskId', this.getNodeParameter('taskId', itemIndex, ''));
+							if (!useRawJsonData) {
+								addIfNotEmpty(data, 'Type', this.getNodeParameter('taskUpdateType', itemIndex, ''));
+								addIfNotEmpty(
+									data,
+									'Subtype',
+									this.getNodeParameter('taskUpdateSubtype', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'ActivityDate',
+									this.getNodeParameter('taskUpdateActivityDate', itemIndex, ''),
+								);
+								const templateId = this.getNodeParameter(
+									'taskUpdateTemplateId',
+									itemIndex,
+									0,
+								) as number;
+								if (templateId) {
+									data.TemplateId = templateId;
+								}
+								addIfNotEmpty(
+									data,
+									'OpportunityId',
+									this.getNodeParameter('taskUpdateOpportunityId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Subject',
+									this.getNodeParameter('taskUpdateSubject', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Description',
+									this.getNodeParameter('taskUpdateDescription', itemIndex, ''),
+								);
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+						} else if (operation === 'complete') {
+							method = 'PATCH';
+							const taskId = this.getNodeParameter('taskId', itemIndex) as string;
+							body = { data: { TaskId: taskId, Completed: true } };
+						} else if (operation === 'reschedule') {
+							method = 'PATCH';
+							const taskId = this.getNodeParameter('taskId', itemIndex) as string;
+							let activityDate = this.getNodeParameter(
+								'taskRescheduleDate',
 								itemIndex,
-								{},
-							);
-							if (Object.keys(prospectExternalProperties).length) {
-								searchBody.ProspectExternalProperties = prospectExternalProperties;
+								'',
+							) as string;
+							if (this.getNodeParameter('taskRescheduleMode', itemIndex) === 'shift') {
+								const task = await getTask.call(this, basePath, taskId, retryOptions);
+								const currentDate = Date.parse(String(getRecordValue(task, ['activityDate'])));
+								if (Number.isNaN(currentDate)) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Task ${taskId} has no activity date to shift`,
+										{ itemIndex },
+									);
+								}
+								const shift = this.getNodeParameter('taskRescheduleShift', itemIndex, 0) as number;
+								const unit = this.getNodeParameter('taskRescheduleUnit', itemIndex) as string;
+								activityDate = new Date(currentDate + shift * RESCHEDULE_UNITS[unit]).toISOString();
 							}
-							const leadExternalProperties = getJsonParameter(
-								this,
-								'taskSearchLeadExternalProperties',
-								itemIndex,
-								{},
-							);
-							if (Object.keys(leadExternalProperties).length) {
-								searchBody.LeadExternalProperties = leadExternalProperties;
+							body = { data: { TaskId: taskId, ActivityDate: activityDate } };
+						}
+						break;
+					}
+					case 'activity': {
+						endpoint = `${basePath}/Activities`;
+						if (operation === 'get') {
+							method = 'GET';
+							const objectId = this.getNodeParameter('objectId', itemIndex) as string;
+							endpoint = `${endpoint}/${objectId}`;
+							qs = getJsonParameter(this, 'includeOptions', itemIndex);
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
+							qs = { ...qs, ...includeOptions };
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'Subject',
+									this.getNodeParameter('activitySearchSubject', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'AccountId',
+									this.getNodeParameter('activitySearchAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'ProspectId',
+									this.getNodeParameter('activitySearchProspectId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'OpportunityId',
+									this.getNodeParameter('activitySearchOpportunityId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'UserId',
+									this.getNodeParameter('activitySearchUserId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'ObjectId',
+									this.getNodeParameter('activitySearchObjectId', itemIndex, ''),
+								);
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('activitySearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('activitySearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMin',
+									this.getNodeParameter('activitySearchCreatedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'CreatedDateMax',
+									this.getNodeParameter('activitySearchCreatedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMin',
+									this.getNodeParameter('activitySearchLastModifiedDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'LastModifiedDateMax',
+									this.getNodeParameter('activitySearchLastModifiedDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'ActivityDateMin',
+									this.getNodeParameter('activitySearchActivityDateMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'ActivityDateMax',
+									this.getNodeParameter('activitySearchActivityDateMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'FirstAnswerDatetimeMin',
+									this.getNodeParameter('activitySearchFirstAnswerDatetimeMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'FirstAnswerDatetimeMax',
+									this.getNodeParameter('activitySearchFirstAnswerDatetimeMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'FirstTrackDatetimeMin',
+									this.getNodeParameter('activitySearchFirstTrackDatetimeMin', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'FirstTrackDatetimeMax',
+									this.getNodeParameter('activitySearchFirstTrackDatetimeMax', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									searchBody,
+									'TaskSubtype',
+									this.getNodeParameter('activitySearchTaskSubtype', itemIndex, ''),
+								);
+								const cronoObjectId = this.getNodeParameter(
+									'activitySearchCronoObjectId',
+									itemIndex,
+									0,
+								) as number;
+								if (cronoObjectId) {
+									searchBody.CronoObjectId = cronoObjectId;
+								}
+								const includes: IDataObject = {};
+								if (this.getNodeParameter('activitySearchIncludeAccount', itemIndex, false)) {
+									includes.WithAccount = true;
+								}
+								if (this.getNodeParameter('activitySearchIncludeProspect', itemIndex, false)) {
+									includes.WithProspect = true;
+								}
+								if (this.getNodeParameter('activitySearchIncludeEmailLog', itemIndex, false)) {
+									includes.WithEmailLog = true;
+								}
+								if (this.getNodeParameter('activitySearchIncludeCallLog', itemIndex, false)) {
+									includes.WithCallLog = true;
+								}
+								if (this.getNodeParameter('activitySearchIncludeLinkedinLog', itemIndex, false)) {
+									includes.WithLinkedinLog = true;
+								}
+								if (this.getNodeParameter('activitySearchIncludeOpportunity', itemIndex, false)) {
+									includes.WithOpportunity = true;
+								}
+								if (Object.keys(includes).length) {
+									searchBody.Include = includes;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
+						} else if (operation === 'create') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								const type = this.getNodeParameter('activityCreateType', itemIndex) as string;
+								data.Type = type;
+								if (type === 'Linkedin') {
+									addIfNotEmpty(
+										data,
+										'Subtype',
+										this.getNodeParameter('activityCreateSubtype', itemIndex, ''),
+									);
+								}
+								addIfNotEmpty(
+									data,
+									'ProspectId',
+									this.getNodeParameter('activityCreateProspectId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'AccountId',
+									this.getNodeParameter('activityCreateAccountId', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'OpportunityId',
+									this.getNodeParameter('activityCreateOpportunityId', itemIndex, ''),
+								);
+								data.ActivityDate =
+									(this.getNodeParameter('activityCreateActivityDate', itemIndex, '') as string) ||
+									new Date().toISOString();
+								addIfNotEmpty(
+									data,
+									'Subject',
+									this.getNodeParameter('activityCreateSubject', itemIndex, ''),
+								);
+								addIfNotEmpty(
+									data,
+									'Description',
+									this.getNodeParameter('activityCreateDescription', itemIndex, ''),
+								);
+								if (type === 'Call') {
+									const callLog: IDataObject = {};
+									const duration = this.getNodeParameter(
+										'activityCreateCallDuration',
+										itemIndex,
+										0,
+									) as number;
+									if (duration) {
+										callLog.Duration = duration;
+									}
+									addIfNotEmpty(
+										callLog,
+										'Outcome',
+										this.getNodeParameter('activityCreateCallOutcome', itemIndex, ''),
+									);
+									addIfNotEmpty(
+										callLog,
+										'RecordingUrl',
+										this.getNodeParameter('activityCreateCallRecordingUrl', itemIndex, ''),
+									);
+									if (Object.keys(callLog).length) {
+										data.CallLog = callLog;
+									}
+								}
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
 							}
-							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-							body = searchBody;
+							body = { data };
 						}
-					} else if (operation === 'create') {
-						method = 'POST';
-						const data: IDataObject = useRawJsonData
-							? getJsonParameter(this, 'data', itemIndex)
-							: {};
-						if (!useRawJsonData) {
-							addIfNotEmpty(
-								data,
-								'AccountId',
-								this.getNodeParameter('taskCreateAccountId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'ProspectId',
-								this.getNodeParameter('taskCreateProspectId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Type',
-								this.getNodeParameter('taskCreateType', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Subtype',
-								this.getNodeParameter('taskCreateSubtype', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'ActivityDate',
-								this.getNodeParameter('taskCreateActivityDate', itemIndex, ''),
-							);
-							const templateId = this.getNodeParameter('taskCreateTemplateId', itemIndex, 0) as number;
-							if (templateId) {
-								data.TemplateId = templateId;
-							}
-							if (this.getNodeParameter('taskCreateAutomatic', itemIndex, false)) {
-								data.Automatic = true;
+						break;
+					}
+					case 'list': {
+						endpoint = `${basePath}/CronoLists`;
+						if (operation === 'create') {
+							method = 'POST';
+							const data: IDataObject = useRawJsonData
+								? getJsonParameter(this, 'data', itemIndex)
+								: {};
+							if (!useRawJsonData) {
+								addIfNotEmpty(data, 'Name', this.getNodeParameter('listCreateName', itemIndex, ''));
+								addIfNotEmpty(data, 'Type', this.getNodeParameter('listType', itemIndex, ''));
+								Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+							}
+							body = { data };
+							break;
+						}
+
+						if (operation !== 'search') {
+							const listId = this.getNodeParameter('listId', itemIndex) as number;
+							endpoint = `${endpoint}/${listId}/members`;
+							if (operation === 'getMembers') {
+								method = 'GET';
+								break;
 							}
-							addIfNotEmpty(
-								data,
-								'OpportunityId',
-								this.getNodeParameter('taskCreateOpportunityId', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Subject',
-								this.getNodeParameter('taskCreateSubject', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'Description',
-								this.getNodeParameter('taskCreateDescription', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'PersonalizedSubject',
-								this.getNodeParameter('taskCreatePersonalizedSubject', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								data,
-								'PersonalizedContent',
-								this.getNodeParameter('taskCreatePersonalizedContent', itemIndex, ''),
-							);
-							Object.assign(data, getAdditionalFields(this, 'dataAdditionalFields', itemIndex));
+
+							const objectIds = parseCsv(
+								String(this.getNodeParameter('listMemberIds', itemIndex, '')),
+							);
+							if (!objectIds.length) {
+								throw new NodeOperationError(this.getNode(), 'No member ID given', { itemIndex });
+							}
+							method = operation === 'addMembers' ? 'POST' : 'DELETE';
+							body = {
+								data: {
+									Type: this.getNodeParameter('listType', itemIndex, 'Account'),
+									ObjectIds: objectIds,
+								},
+							};
+							break;
 						}
-						body = { data };
-					}
-					break;
-				}
-				case 'activity': {
-					endpoint = `${basePath}/Activities`;
-					if (operation === 'get') {
-						method = 'GET';
-						const objectId = this.getNodeParameter('objectId', itemIndex) as string;
-						endpoint = `${endpoint}/${objectId}`;
-						qs = getJsonParameter(this, 'includeOptions', itemIndex);
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const includeOptions = getJsonParameter(this, 'includeOptions', itemIndex);
-						qs = { ...qs, ...includeOptions };
-					} else if (operation === 'search') {
+
 						method = 'POST';
 						endpoint = `${endpoint}/search`;
 						if (useRawJsonSearch) {
@@ -7196,454 +10949,491 @@ export class CronoPublicApi implements INodeType {
 							const searchBody: IDataObject = {};
 							addIfNotEmpty(
 								searchBody,
-								'Subject',
-								this.getNodeParameter('activitySearchSubject', itemIndex, ''),
+								'Name',
+								this.getNodeParameter('listSearchName', itemIndex, ''),
 							);
 							addIfNotEmpty(
 								searchBody,
 								'AccountId',
-								this.getNodeParameter('activitySearchAccountId', itemIndex, ''),
+								this.getNodeParameter('listSearchAccountId', itemIndex, ''),
 							);
 							addIfNotEmpty(
 								searchBody,
 								'ProspectId',
-								this.getNodeParameter('activitySearchProspectId', itemIndex, ''),
+								this.getNodeParameter('listSearchProspectId', itemIndex, ''),
+							);
+							const strategyId = this.getNodeParameter('listSearchStrategyId', itemIndex, 0) as number;
+							if (strategyId) {
+								searchBody.StrategyId = strategyId;
+							}
+							const templateId = this.getNodeParameter('listSearchTemplateId', itemIndex, 0) as number;
+							if (templateId) {
+								searchBody.TemplateId = templateId;
+							}
+							const pagination: IDataObject = {};
+							addIfNotEmpty(
+								pagination,
+								'Limit',
+								this.getNodeParameter('listSearchLimit', itemIndex, 50),
+							);
+							addIfNotEmpty(
+								pagination,
+								'Offset',
+								this.getNodeParameter('listSearchOffset', itemIndex, 0),
 							);
+							if (Object.keys(pagination).length) {
+								searchBody.Pagination = pagination;
+							}
 							addIfNotEmpty(
 								searchBody,
-								'OpportunityId',
-								this.getNodeParameter('activitySearchOpportunityId', itemIndex, ''),
+								'Type',
+								this.getNodeParameter('listSearchType', itemIndex, 'Account'),
 							);
 							addIfNotEmpty(
 								searchBody,
-								'UserId',
-								this.getNodeParameter('activitySearchUserId', itemIndex, ''),
+								'SortType',
+								this.getNodeParameter('listSearchSortType', itemIndex, ''),
 							);
+							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+							body = searchBody;
+						}
+						break;
+					}
+					case 'pipeline': {
+						method = 'GET';
+						endpoint = `${basePath}/Pipelines`;
+						break;
+					}
+					case 'strategy': {
+						method = 'POST';
+						endpoint = `${basePath}/Strategies/${operation === 'searchDetails' ? 'details' : 'search'}`;
+						if (useRawJsonSearch) {
+							body = getJsonParameter(this, 'search', itemIndex);
+						} else if (operation === 'searchDetails') {
+							const searchBody: IDataObject = {};
+							const strategyId = this.getNodeParameter(
+								'strategyDetailsStrategyId',
+								itemIndex,
+								0,
+							) as number;
+							searchBody.StrategyId = strategyId;
 							addIfNotEmpty(
 								searchBody,
-								'ObjectId',
-								this.getNodeParameter('activitySearchObjectId', itemIndex, ''),
+								'Text',
+								this.getNodeParameter('strategyDetailsText', itemIndex, ''),
 							);
 							const pagination: IDataObject = {};
 							addIfNotEmpty(
 								pagination,
 								'Limit',
-								this.getNodeParameter('activitySearchLimit', itemIndex, 50),
+								this.getNodeParameter('strategyDetailsLimit', itemIndex, 50),
 							);
 							addIfNotEmpty(
 								pagination,
 								'Offset',
-								this.getNodeParameter('activitySearchOffset', itemIndex, 0),
+								this.getNodeParameter('strategyDetailsOffset', itemIndex, 0),
 							);
 							if (Object.keys(pagination).length) {
 								searchBody.Pagination = pagination;
 							}
 							addIfNotEmpty(
 								searchBody,
-								'CreatedDateMin',
-								this.getNodeParameter('activitySearchCreatedDateMin', itemIndex, ''),
-							);
-							addIfNotEmpty(
-								searchBody,
-								'CreatedDateMax',
-								this.getNodeParameter('activitySearchCreatedDateMax', itemIndex, ''),
+								'Sort',
+								this.getNodeParameter('strategyDetailsSort', itemIndex, 'ContactsAsc'),
 							);
 							addIfNotEmpty(
 								searchBody,
-								'LastModifiedDateMin',
-								this.getNodeParameter('activitySearchLastModifiedDateMin', itemIndex, ''),
+								'Status',
+								this.getNodeParameter('strategyDetailsStatus', itemIndex, ''),
 							);
+							const onlySpecificTask = this.getNodeParameter(
+								'strategyDetailsOnlySpecificTask',
+								itemIndex,
+								[],
+							) as string[];
+							if (onlySpecificTask.length) {
+								searchBody.OnlySpecificTask = onlySpecificTask;
+							}
+							if (this.getNodeParameter('strategyDetailsOnlyMySequences', itemIndex, false)) {
+								searchBody.OnlyMySequences = true;
+							}
+							if (this.getNodeParameter('strategyDetailsOnlyMyProspects', itemIndex, false)) {
+								searchBody.OnlyMyProspects = true;
+							}
+							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+							body = searchBody;
+						} else {
+							const searchBody: IDataObject = {};
 							addIfNotEmpty(
 								searchBody,
-								'LastModifiedDateMax',
-								this.getNodeParameter('activitySearchLastModifiedDateMax', itemIndex, ''),
+								'Name',
+								this.getNodeParameter('strategySearchName', itemIndex, ''),
 							);
 							addIfNotEmpty(
 								searchBody,
-								'ActivityDateMin',
-								this.getNodeParameter('activitySearchActivityDateMin', itemIndex, ''),
+								'AccountId',
+								this.getNodeParameter('strategySearchAccountId', itemIndex, ''),
 							);
 							addIfNotEmpty(
 								searchBody,
-								'ActivityDateMax',
-								this.getNodeParameter('activitySearchActivityDateMax', itemIndex, ''),
+								'ProspectId',
+								this.getNodeParameter('strategySearchProspectId', itemIndex, ''),
 							);
 							addIfNotEmpty(
 								searchBody,
-								'FirstAnswerDatetimeMin',
-								this.getNodeParameter('activitySearchFirstAnswerDatetimeMin', itemIndex, ''),
+								'UserId',
+								this.getNodeParameter('strategySearchUserId', itemIndex, ''),
 							);
-							addIfNotEmpty(
-								searchBody,
-								'FirstAnswerDatetimeMax',
-								this.getNodeParameter('activitySearchFirstAnswerDatetimeMax', itemIndex, ''),
+							const ids = parseCsv(
+								this.getNodeParameter('strategySearchIds', itemIndex, '') as string,
 							);
+							if (ids.length) {
+								searchBody.Ids = ids;
+							}
+							const pagination: IDataObject = {};
 							addIfNotEmpty(
-								searchBody,
-								'FirstTrackDatetimeMin',
-								this.getNodeParameter('activitySearchFirstTrackDatetimeMin', itemIndex, ''),
+								pagination,
+								'Limit',
+								this.getNodeParameter('strategySearchLimit', itemIndex, 50),
 							);
 							addIfNotEmpty(
-								searchBody,
-								'FirstTrackDatetimeMax',
-								this.getNodeParameter('activitySearchFirstTrackDatetimeMax', itemIndex, ''),
+								pagination,
+								'Offset',
+								this.getNodeParameter('strategySearchOffset', itemIndex, 0),
 							);
+							if (Object.keys(pagination).length) {
+								searchBody.Pagination = pagination;
+							}
 							addIfNotEmpty(
 								searchBody,
-								'TaskSubtype',
-								this.getNodeParameter('activitySearchTaskSubtype', itemIndex, ''),
+								'Sort',
+								this.getNodeParameter('strategySearchSort', itemIndex, ''),
 							);
-							const cronoObjectId = this.getNodeParameter(
-								'activitySearchCronoObjectId',
+							const strategyTags = getJsonParameter(
+								this,
+								'strategySearchTags',
 								itemIndex,
-								0,
-							) as number;
-							if (cronoObjectId) {
-								searchBody.CronoObjectId = cronoObjectId;
-							}
-							const includes: IDataObject = {};
-							if (this.getNodeParameter('activitySearchIncludeAccount', itemIndex, false)) {
-								includes.WithAccount = true;
-							}
-							if (this.getNodeParameter('activitySearchIncludeProspect', itemIndex, false)) {
-								includes.WithProspect = true;
+								{},
+							);
+							if (Object.keys(strategyTags).length) {
+								searchBody.StrategyTags = strategyTags;
 							}
-							if (this.getNodeParameter('activitySearchIncludeEmailLog', itemIndex, false)) {
-								includes.WithEmailLog = true;
+							const includeOptions: IDataObject = {};
+							if (
+								this.getNodeParameter(
+									'strategySearchIncludeActiveSequenceInstances',
+									itemIndex,
+									false,
+								)
+							) {
+								includeOptions.WithActiveSequenceInstances = true;
 							}
-							if (this.getNodeParameter('activitySearchIncludeCallLog', itemIndex, false)) {
-								includes.WithCallLog = true;
+							if (this.getNodeParameter('strategySearchIncludeAnalytics', itemIndex, false)) {
+								includeOptions.WithAnalytics = true;
 							}
-							if (this.getNodeParameter('activitySearchIncludeLinkedinLog', itemIndex, false)) {
-								includes.WithLinkedinLog = true;
+							if (this.getNodeParameter('strategySearchIncludeSequence', itemIndex, false)) {
+								includeOptions.WithSequence = true;
 							}
-							if (this.getNodeParameter('activitySearchIncludeOpportunity', itemIndex, false)) {
-								includes.WithOpportunity = true;
+							if (this.getNodeParameter('strategySearchIncludeUsers', itemIndex, false)) {
+								includeOptions.WithUsers = true;
 							}
-							if (Object.keys(includes).length) {
-								searchBody.Include = includes;
+							if (Object.keys(includeOptions).length) {
+								searchBody.IncludeOptions = includeOptions;
 							}
 							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
 							body = searchBody;
 						}
+						break;
 					}
-					break;
-				}
-				case 'list': {
-					method = 'POST';
-					endpoint = `${basePath}/CronoLists/search`;
-					if (useRawJsonSearch) {
-						body = getJsonParameter(this, 'search', itemIndex);
-					} else {
-						const searchBody: IDataObject = {};
-						addIfNotEmpty(
-							searchBody,
-							'Name',
-							this.getNodeParameter('listSearchName', itemIndex, ''),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'AccountId',
-							this.getNodeParameter('listSearchAccountId', itemIndex, ''),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'ProspectId',
-							this.getNodeParameter('listSearchProspectId', itemIndex, ''),
-						);
-						const strategyId = this.getNodeParameter('listSearchStrategyId', itemIndex, 0) as number;
-						if (strategyId) {
-							searchBody.StrategyId = strategyId;
-						}
-						const templateId = this.getNodeParameter('listSearchTemplateId', itemIndex, 0) as number;
-						if (templateId) {
-							searchBody.TemplateId = templateId;
-						}
-						const pagination: IDataObject = {};
-						addIfNotEmpty(
-							pagination,
-							'Limit',
-							this.getNodeParameter('listSearchLimit', itemIndex, 50),
-						);
-						addIfNotEmpty(
-							pagination,
-							'Offset',
-							this.getNodeParameter('listSearchOffset', itemIndex, 0),
-						);
-						if (Object.keys(pagination).length) {
-							searchBody.Pagination = pagination;
-						}
-						addIfNotEmpty(
-							searchBody,
-							'Type',
-							this.getNodeParameter('listSearchType', itemIndex, 'Account'),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'SortType',
-							this.getNodeParameter('listSearchSortType', itemIndex, ''),
-						);
-						Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-						body = searchBody;
-					}
-					break;
-				}
-				case 'pipeline': {
-					method = 'GET';
-					endpoint = `${basePath}/Pipelines`;
-					break;
-				}
-				case 'strategy': {
-					method = 'POST';
-					endpoint = `${basePath}/Strategies/${operation === 'searchDetails' ? 'details' : 'search'}`;
-					if (useRawJsonSearch) {
-						body = getJsonParameter(this, 'search', itemIndex);
-					} else if (operation === 'searchDetails') {
-						const searchBody: IDataObject = {};
-						const strategyId = this.getNodeParameter(
-							'strategyDetailsStrategyId',
-							itemIndex,
-							0,
-						) as number;
-						searchBody.StrategyId = strategyId;
-						addIfNotEmpty(
-							searchBody,
-							'Text',
-							this.getNodeParameter('strategyDetailsText', itemIndex, ''),
-						);
-						const pagination: IDataObject = {};
-						addIfNotEmpty(
-							pagination,
-							'Limit',
-							this.getNodeParameter('strategyDetailsLimit', itemIndex, 50),
-						);
-						addIfNotEmpty(
-							pagination,
-							'Offset',
-							this.getNodeParameter('strategyDetailsOffset', itemIndex, 0),
-						);
-						if (Object.keys(pagination).length) {
-							searchBody.Pagination = pagination;
-						}
-						addIfNotEmpty(
-							searchBody,
-							'Sort',
-							this.getNodeParameter('strategyDetailsSort', itemIndex, 'ContactsAsc'),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'Status',
-							this.getNodeParameter('strategyDetailsStatus', itemIndex, ''),
-						);
-						const onlySpecificTask = this.getNodeParameter(
-							'strategyDetailsOnlySpecificTask',
-							itemIndex,
-							[],
-						) as string[];
-						if (onlySpecificTask.length) {
-							searchBody.OnlySpecificTask = onlySpecificTask;
-						}
-						if (this.getNodeParameter('strategyDetailsOnlyMySequences', itemIndex, false)) {
-							searchBody.OnlyMySequences = true;
-						}
-						if (this.getNodeParameter('strategyDetailsOnlyMyProspects', itemIndex, false)) {
-							searchBody.OnlyMyProspects = true;
-						}
-						Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-						body = searchBody;
-					} else {
-						const searchBody: IDataObject = {};
-						addIfNotEmpty(
-							searchBody,
-							'Name',
-							this.getNodeParameter('strategySearchName', itemIndex, ''),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'AccountId',
-							this.getNodeParameter('strategySearchAccountId', itemIndex, ''),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'ProspectId',
-							this.getNodeParameter('strategySearchProspectId', itemIndex, ''),
-						);
-						addIfNotEmpty(
-							searchBody,
-							'UserId',
-							this.getNodeParameter('strategySearchUserId', itemIndex, ''),
-						);
-						const ids = parseCsv(
-							this.getNodeParameter('strategySearchIds', itemIndex, '') as string,
-						);
-						if (ids.length) {
-							searchBody.Ids = ids;
-						}
-						const pagination: IDataObject = {};
-						addIfNotEmpty(
-							pagination,
-							'Limit',
-							this.getNodeParameter('strategySearchLimit', itemIndex, 50),
-						);
-						addIfNotEmpty(
-							pagination,
-							'Offset',
-							this.getNodeParameter('strategySearchOffset', itemIndex, 0),
-						);
-						if (Object.keys(pagination).length) {
-							searchBody.Pagination = pagination;
-						}
-						addIfNotEmpty(
-							searchBody,
-							'Sort',
-							this.getNodeParameter('strategySearchSort', itemIndex, ''),
-						);
-						const strategyTags = getJsonParameter(
-							this,
-							'strategySearchTags',
-							itemIndex,
-							{},
-						);
-						if (Object.keys(strategyTags).length) {
-							searchBody.StrategyTags = strategyTags;
-						}
-						const includeOptions: IDataObject = {};
-						if (
-							this.getNodeParameter(
-								'strategySearchIncludeActiveSequenceInstances',
-								itemIndex,
-								false,
-							)
-						) {
-							includeOptions.WithActiveSequenceInstances = true;
-						}
-						if (this.getNodeParameter('strategySearchIncludeAnalytics', itemIndex, false)) {
-							includeOptions.WithAnalytics = true;
-						}
-						if (this.getNodeParameter('strategySearchIncludeSequence', itemIndex, false)) {
-							includeOptions.WithSequence = true;
-						}
-						if (this.getNodeParameter('strategySearchIncludeUsers', itemIndex, false)) {
-							includeOptions.WithUsers = true;
-						}
-						if (Object.keys(includeOptions).length) {
-							searchBody.IncludeOptions = includeOptions;
-						}
-						Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-						body = searchBody;
-					}
-					break;
-				}
-				case 'externalProperty': {
-					method = 'POST';
-					endpoint = `${basePath}/ExternalProperties/search`;
-					if (useRawJsonSearch) {
-						body = getJsonParameter(this, 'search', itemIndex);
-					} else {
-						const searchBody: IDataObject = {};
-						addIfNotEmpty(
-							searchBody,
-							'TableType',
-							this.getNodeParameter('externalPropertySearchTableType', itemIndex, ''),
-						);
-						if (this.getNodeParameter('externalPropertySearchOnlyInsert', itemIndex, false)) {
-							searchBody.OnlyInsert = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchOnlyTag', itemIndex, false)) {
-							searchBody.OnlyTag = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchWithLead', itemIndex, false)) {
-							searchBody.WithLead = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchIsImported', itemIndex, false)) {
-							searchBody.IsImported = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchIsStatus', itemIndex, false)) {
-							searchBody.IsStatus = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchIsFilter', itemIndex, false)) {
-							searchBody.IsFilter = true;
-						}
-						if (this.getNodeParameter('externalPropertySearchOnlyAiVariables', itemIndex, false)) {
-							searchBody.OnlyAiVariables = true;
-						}
-						Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
-						body = searchBody;
-					}
-					break;
-				}
-				case 'user': {
-					endpoint = `${basePath}/Users`;
-					if (operation === 'get') {
-						method = 'GET';
-						const userId = this.getNodeParameter('userId', itemIndex) as string;
-						endpoint = `${endpoint}/${userId}`;
-					} else if (operation === 'getAll') {
-						method = 'GET';
-					} else if (operation === 'search') {
+					case 'externalProperty': {
 						method = 'POST';
-						endpoint = `${endpoint}/search`;
+						endpoint = `${basePath}/ExternalProperties/search`;
 						if (useRawJsonSearch) {
 							body = getJsonParameter(this, 'search', itemIndex);
 						} else {
 							const searchBody: IDataObject = {};
 							addIfNotEmpty(
 								searchBody,
-								'Email',
-								this.getNodeParameter('userSearchEmail', itemIndex, ''),
+								'TableType',
+								this.getNodeParameter('externalPropertySearchTableType', itemIndex, ''),
 							);
-							if (this.getNodeParameter('userSearchActive', itemIndex, false)) {
-								searchBody.Active = true;
+							if (this.getNodeParameter('externalPropertySearchOnlyInsert', itemIndex, false)) {
+								searchBody.OnlyInsert = true;
 							}
-							const pagination: IDataObject = {};
-							addIfNotEmpty(
-								pagination,
-								'Limit',
-								this.getNodeParameter('userSearchLimit', itemIndex, 50),
-							);
-							addIfNotEmpty(
-								pagination,
-								'Offset',
-								this.getNodeParameter('userSearchOffset', itemIndex, 0),
-							);
-							if (Object.keys(pagination).length) {
-								searchBody.Pagination = pagination;
+							if (this.getNodeParameter('externalPropertySearchOnlyTag', itemIndex, false)) {
+								searchBody.OnlyTag = true;
+							}
+							if (this.getNodeParameter('externalPropertySearchWithLead', itemIndex, false)) {
+								searchBody.WithLead = true;
+							}
+							if (this.getNodeParameter('externalPropertySearchIsImported', itemIndex, false)) {
+								searchBody.IsImported = true;
+							}
+							if (this.getNodeParameter('externalPropertySearchIsStatus', itemIndex, false)) {
+								searchBody.IsStatus = true;
+							}
+							if (this.getNodeParameter('externalPropertySearchIsFilter', itemIndex, false)) {
+								searchBody.IsFilter = true;
+							}
+							if (this.getNodeParameter('externalPropertySearchOnlyAiVariables', itemIndex, false)) {
+								searchBody.OnlyAiVariables = true;
 							}
 							Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
 							body = searchBody;
 						}
+						break;
 					}
-					break;
-				}
-				case 'import': {
-					endpoint = `${basePath}/Import`;
-					if (operation === 'get') {
-						method = 'GET';
-						const importId = this.getNodeParameter('importId', itemIndex) as number;
-						endpoint = `${endpoint}/${importId}`;
-					} else if (operation === 'getAll') {
-						method = 'GET';
-						const importType = this.getNodeParameter('importType', itemIndex) as string;
-						const importStatus = this.getNodeParameter('importStatus', itemIndex) as string;
-						if (importType) {
-							qs.type = importType;
+					case 'user': {
+						endpoint = `${basePath}/Users`;
+						if (operation === 'get') {
+							method = 'GET';
+							const userId = this.getNodeParameter('userId', itemIndex) as string;
+							endpoint = `${endpoint}/${userId}`;
+						} else if (operation === 'getAll') {
+							method = 'GET';
+						} else if (operation === 'search') {
+							method = 'POST';
+							endpoint = `${endpoint}/search`;
+							if (useRawJsonSearch) {
+								body = getJsonParameter(this, 'search', itemIndex);
+							} else {
+								const searchBody: IDataObject = {};
+								addIfNotEmpty(
+									searchBody,
+									'Email',
+									this.getNodeParameter('userSearchEmail', itemIndex, ''),
+								);
+								if (this.getNodeParameter('userSearchActive', itemIndex, false)) {
+									searchBody.Active = true;
+								}
+								const pagination: IDataObject = {};
+								addIfNotEmpty(
+									pagination,
+									'Limit',
+									this.getNodeParameter('userSearchLimit', itemIndex, 50),
+								);
+								addIfNotEmpty(
+									pagination,
+									'Offset',
+									this.getNodeParameter('userSearchOffset', itemIndex, 0),
+								);
+								if (Object.keys(pagination).length) {
+									searchBody.Pagination = pagination;
+								}
+								Object.assign(searchBody, getAdditionalFields(this, 'searchAdditionalFields', itemIndex));
+								body = searchBody;
+							}
 						}
-						if (importStatus) {
-							qs.statusType = importStatus;
+						break;
+					}
+					case 'import': {
+						endpoint = `${basePath}/Import`;
+						if (operation === 'get') {
+							method = 'GET';
+							const importId = this.getNodeParameter('importId', itemIndex) as number;
+							endpoint = `${endpoint}/${importId}`;
+						} else if (operation === 'stop') {
+							method = 'POST';
+							const importId = this.getNodeParameter('importId', itemIndex) as number;
+							endpoint = `${endpoint}/${importId}/stop`;
+						} else if (operation === 'getAll') {
+							method = 'GET';
+							const importType = this.getNodeParameter('importType', itemIndex) as string;
+							const importStatus = this.getNodeParameter('importStatus', itemIndex) as string;
+							if (importType) {
+								qs.type = importType;
+							}
+							if (importStatus) {
+								qs.statusType = importStatus;
+							}
 						}
+						break;
 					}
-					break;
+					default:
+						throw new NodeOperationError(this.getNode(), `Unsupported resource: ${resource}`, {
+							itemIndex,
+						});
+				}
+
+				await translateExternalPropertyNames.call(
+					this,
+					externalPropertyCache,
+					basePath,
+					resource,
+					body,
+					itemIndex,
+					retryOptions,
+				);
+
+				const paginationStyle = getPaginationStyle(resource, operation);
+				const returnAll = paginationStyle
+					? (this.getNodeParameter('returnAll', itemIndex, false) as boolean)
+					: false;
+
+				let responseData =
+					returnAll && paginationStyle
+						? await cronoApiRequestAllItems.call(
+								this,
+								method,
+								endpoint,
+								qs,
+								body,
+								paginationStyle,
+								itemIndex,
+								retryOptions,
+							)
+						: await cronoApiRequest.call(this, method, endpoint, qs, body, retryOptions);
+
+				if (this.getNodeParameter('resolveExternalPropertyNames', itemIndex, false)) {
+					externalPropertyNames ??= await getExternalPropertyNames.call(
+						this,
+						externalPropertyCache,
+						basePath,
+						retryOptions,
+					);
+					responseData = renameExternalValues(responseData, externalPropertyNames);
 				}
-				default:
-					throw new NodeOperationError(this.getNode(), `Unsupported resource: ${resource}`, {
+
+				if (upsertAction === 'created') {
+					await rememberUpsertRecord(
+						upsertCache,
+						endpoint,
+						resource === 'company' ? COMPANY_UPSERT_KEYS : CONTACT_UPSERT_KEYS,
+						getResponseRecord(body),
+						getResponseRecord(responseData),
+					);
+				}
+
+				if (upsertAction) {
+					responseData = { action: upsertAction, ...responseData };
+				}
+
+				if (resource === 'note' && this.getNodeParameter('noteOutputPlainText', itemIndex, false)) {
+					responseData = convertNoteDescriptionsToText(responseData);
+				}
+
+				if (operation === 'import' && IMPORT_FIELDS[resource]) {
+					responseData = await waitForImportIfRequested.call(
+						this,
+						basePath,
+						responseData,
 						itemIndex,
-					});
+						retryOptions,
+					);
+				}
+
+				if (
+					resource === 'task' &&
+					operation === 'complete' &&
+					this.getNodeParameter('taskCompleteLogActivity', itemIndex, false)
+				) {
+					const outcome = await logTaskOutcome.call(
+						this,
+						basePath,
+						this.getNodeParameter('taskId', itemIndex) as string,
+						responseData,
+						itemIndex,
+						retryOptions,
+					);
+					responseData = { ...getResponseRecord(responseData), ...outcome };
+				}
+
+				if (resource === 'import' && operation === 'stop') {
+					const importId = this.getNodeParameter('importId', itemIndex) as number;
+					responseData = this.getNodeParameter('importWaitForStop', itemIndex, false)
+						? await waitForImport.call(
+								this,
+								basePath,
+								importId,
+								IMPORT_FINISHED_STATUSES,
+								this.getNodeParameter('importWaitTimeout', itemIndex, 600) as number,
+								this.getNodeParameter('importPollInterval', itemIndex, 10) as number,
+								itemIndex,
+								retryOptions,
+							)
+						: { importId, stopRequested: true, ...getResponseRecord(responseData) };
+				}
+
+				if (resource === 'list' && ['addMembers', 'removeMembers'].includes(operation)) {
+					const { Type: type, ObjectIds: objectIds } = getResponseRecord(body);
+					responseData = {
+						listId: this.getNodeParameter('listId', itemIndex) as number,
+						type,
+						[operation === 'addMembers' ? 'added' : 'removed']: objectIds,
+						...getResponseRecord(responseData),
+					};
+				}
+
+				if (hasFailedRowsOutput(this.getNode().parameters)) {
+					const record = getResponseRecord(responseData);
+					const importId = getRecordValue(record, ['importId', 'id', 'objectId']) ?? null;
+					const submittedRows = getRecordValue(
+						getResponseRecord(body),
+						Object.values(IMPORT_ROWS_KEYS),
+					);
+					failedRows[itemIndex] = getImportFailedRows(
+						record,
+						Array.isArray(submittedRows) ? submittedRows : [],
+					).map((failedRow) => ({
+						json: { importId, ...failedRow } as IDataObject,
+						pairedItem: { item: itemIndex },
+					}));
+				}
+
+				const isListOperation = ['getAll', 'getMembers', 'search', 'searchDetails'].includes(
+					operation,
+				);
+				const splitIntoItems = isListOperation
+					? (this.getNodeParameter('splitIntoItems', itemIndex, false) as boolean)
+					: false;
+				const records = splitIntoItems ? getResponseRecords(responseData) : undefined;
+
+				if (records) {
+					const executionData = this.helpers.constructExecutionMetaData(
+						this.helpers.returnJsonArray(
+							includeAttempts ? records.map((record) => ({ ...record, attempts })) : records,
+						),
+						{ itemData: { item: itemIndex } },
+					);
+					return executionData;
+				}
+
+				return [
+					{
+						json: includeAttempts ? { ...responseData, attempts } : responseData,
+						pairedItem: { item: itemIndex },
+					},
+				];
+			} catch (error) {
+				if (this.continueOnFail()) {
+					return [
+						getErrorItem(error as Error, itemIndex, attempts, {
+							method,
+							endpoint,
+							qs,
+							body: body ?? null,
+						}),
+					];
+				}
+
+				if (error instanceof NodeApiError || error instanceof NodeOperationError) {
+					error.context.itemIndex ??= itemIndex;
+					throw error;
+				}
+
+				throw new NodeOperationError(this.getNode(), error as Error, { itemIndex });
 			}
+		};
 
-			const responseData = await cronoApiRequest.call(this, method, endpoint, qs, body);
-			returnData.push({ json: responseData, pairedItem: { item: itemIndex } });
-		}
+		const results = await runConcurrently(
+			items.length,
+			(schedulerOptions.concurrency as number) ?? 1,
+			processItem,
+		);
 
-		return [returnData];
+		if (hasFailedRowsOutput(this.getNode().parameters)) {
+			return [results.flat(), failedRows.flat()];
+		}
+		return [results.flat()];
 	}
 }
@@ -0,0 +1,470 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionTypes } from 'n8n-workflow';
+
+import {
+	cronoApiRequest,
+	cronoApiRequestAllItems,
+	getRecordValue,
+	getResponseRecords,
+} from './GenericFunctions';
+
+type CronoTriggerResource = 'company' | 'contact' | 'deal' | 'note' | 'activity';
+
+type CronoTriggerEvent = 'created' | 'updated';
+
+type CronoEngagementEvent = 'replied' | 'opened' | 'clicked' | 'linkedinAccepted';
+
+type HighWaterMark = {
+	timestamp: string;
+	ids: string[];
+};
+
+const RESOURCE_ENDPOINTS: Record<CronoTriggerResource, string> = {
+	company: 'Accounts',
+	contact: 'Prospects',
+	deal: 'Opportunities',
+	note: 'Notes',
+	activity: 'Activities',
+};
+
+const ID_FIELDS = ['objectId', 'id'];
+const CREATED_DATE_FIELDS = ['createdDate', 'createdAt', 'created'];
+const LAST_MODIFIED_DATE_FIELDS = ['lastModifiedDate', 'modifiedDate', 'updatedAt', 'lastModified'];
+const FIRST_ANSWER_DATE_FIELDS = ['firstAnswerDatetime', 'firstAnswerDate'];
+const FIRST_TRACK_DATE_FIELDS = ['firstTrackDatetime', 'firstTrackDate'];
+const SUBTYPE_FIELDS = ['taskSubtype', 'subtype'];
+const CLICK_DATE_FIELDS = [
+	'lastClickDatetime',
+	'lastClickDate',
+	'clickDatetime',
+	'clickDate',
+	'firstClickDatetime',
+	'firstClickDate',
+];
+const EMAIL_LOG_ENTRY_FIELDS = ['events', 'tracks', 'logs', 'entries'];
+const EMAIL_LOG_TYPE_FIELDS = ['type', 'event', 'eventType', 'action'];
+const EMAIL_LOG_DATE_FIELDS = ['date', 'datetime', 'createdDate', 'timestamp'];
+
+const ENGAGEMENT_INCLUDES: IDataObject = {
+	WithProspect: true,
+	WithAccount: true,
+	WithOpportunity: true,
+	WithEmailLog: true,
+	WithLinkedinLog: true,
+};
+
+function getRecordTime(record: IDataObject, fields: string[]): number | undefined {
+	const value = getRecordValue(record, fields);
+	if (value === undefined) {
+		return undefined;
+	}
+	const time = new Date(value as string).getTime();
+	return Number.isNaN(time) ? undefined : time;
+}
+
+function getRecordId(record: IDataObject): string {
+	const value = getRecordValue(record, ID_FIELDS);
+	return value === undefined ? JSON.stringify(record) : String(value);
+}
+
+async function searchSample(
+	this: IPollFunctions,
+	endpoint: string,
+	body: IDataObject = {},
+): Promise<IDataObject[]> {
+	const response = await cronoApiRequest.call(
+		this,
+		'POST',
+		endpoint,
+		{},
+		{
+			...body,
+			Pagination: { Limit: 1, Offset: 0 },
+		},
+	);
+	return getResponseRecords(response) ?? [];
+}
+
+async function searchAll(
+	this: IPollFunctions,
+	endpoint: string,
+	body: IDataObject,
+): Promise<IDataObject[]> {
+	const response = await cronoApiRequestAllItems.call(this, 'POST', endpoint, {}, body, 'body', 0);
+	return getResponseRecords(response) ?? [];
+}
+
+function getHighWaterMark(staticData: IDataObject, key: string, now: string): HighWaterMark {
+	return (staticData[key] as HighWaterMark | undefined) ?? { timestamp: now, ids: [] };
+}
+
+function collectNewRecords(
+	records: IDataObject[],
+	mark: HighWaterMark,
+	getTime: (record: IDataObject) => number | undefined,
+): { records: IDataObject[]; mark: HighWaterMark } {
+	const markTime = new Date(mark.timestamp).getTime();
+	const seenAtMark = new Set(mark.ids);
+	const fresh: IDataObject[] = [];
+	let nextTime = markTime;
+	let nextIds = [...mark.ids];
+
+	for (const record of records) {
+		const time = getTime(record);
+		if (time === undefined || time < markTime) {
+			continue;
+		}
+
+		const id = getRecordId(record);
+		if (time === markTime && seenAtMark.has(id)) {
+			continue;
+		}
+
+		fresh.push(record);
+		if (time > nextTime) {
+			nextTime = time;
+			nextIds = [id];
+		} else if (time === nextTime) {
+			nextIds.push(id);
+		}
+	}
+
+	return {
+		records: fresh,
+		mark: { timestamp: new Date(nextTime).toISOString(), ids: nextIds },
+	};
+}
+
+function classifyAnswer(activity: IDataObject): CronoEngagementEvent {
+	const subtype = getRecordValue(activity, SUBTYPE_FIELDS);
+	return subtype === 'LinkedinInvitation' ? 'linkedinAccepted' : 'replied';
+}
+
+function isObject(value: unknown): value is IDataObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getEmailLogEntries(activity: IDataObject): IDataObject[] {
+	const emailLog = getRecordValue(activity, ['emailLog', 'emailLogs']);
+	const logs = (Array.isArray(emailLog) ? emailLog : [emailLog]).filter(isObject);
+	const entries: IDataObject[] = [];
+	for (const log of logs) {
+		entries.push(log);
+		const nested = getRecordValue(log, EMAIL_LOG_ENTRY_FIELDS);
+		if (Array.isArray(nested)) {
+			entries.push(...nested.filter(isObject));
+		}
+	}
+	return entries;
+}
+
+// Latest click on the activity's email, read from click timestamps or click entries in the log.
+function getClickTime(activity: IDataObject): number | undefined {
+	let latest: number | undefined;
+	for (const entry of getEmailLogEntries(activity)) {
+		const type = getRecordValue(entry, EMAIL_LOG_TYPE_FIELDS);
+		const times = [getRecordTime(entry, CLICK_DATE_FIELDS)];
+		if (typeof type === 'string' && /click/i.test(type)) {
+			times.push(getRecordTime(entry, EMAIL_LOG_DATE_FIELDS));
+		}
+		for (const time of times) {
+			if (time !== undefined && (latest === undefined || time > latest)) {
+				latest = time;
+			}
+		}
+	}
+	return latest;
+}
+
+function toEngagementEvent(event: CronoEngagementEvent, activity: IDataObject): IDataObject {
+	return {
+		event,
+		activity,
+		prospect: getRecordValue(activity, ['prospect']) ?? null,
+		account: getRecordValue(activity, ['account']) ?? null,
+		opportunity: getRecordValue(activity, ['opportunity']) ?? null,
+	};
+}
+
+async function pollRecordChanges(this: IPollFunctions, basePath: string): Promise<IDataObject[]> {
+	const resource = this.getNodeParameter('resource') as CronoTriggerResource;
+	const events = this.getNodeParameter('events', []) as CronoTriggerEvent[];
+	const endpoint = `${basePath}/${RESOURCE_ENDPOINTS[resource]}/search`;
+	const staticData = this.getWorkflowStaticData('node');
+
+	if (this.getMode() === 'manual') {
+		const records = await searchSample.call(this, endpoint);
+		return records.map((record) => ({ event: events[0] ?? 'created', resource, data: record }));
+	}
+
+	const now = new Date().toISOString();
+	const createdMark = getHighWaterMark(staticData, 'created', now);
+	const updatedMark = getHighWaterMark(staticData, 'updated', now);
+
+	if (!staticData.created || !staticData.updated) {
+		staticData.created = createdMark;
+		staticData.updated = updatedMark;
+		return [];
+	}
+
+	const output: IDataObject[] = [];
+	const createdIds = new Set<string>();
+
+	if (events.includes('created')) {
+		const records = await searchAll.call(this, endpoint, {
+			CreatedDateMin: createdMark.timestamp,
+		});
+		const result = collectNewRecords(records, createdMark, (record) =>
+			getRecordTime(record, CREATED_DATE_FIELDS),
+		);
+		staticData.created = result.mark;
+		for (const record of result.records) {
+			createdIds.add(getRecordId(record));
+		}
+		output.push(...result.records.map((record) => ({ event: 'created', resource, data: record })));
+	} else {
+		staticData.created = { timestamp: now, ids: [] };
+	}
+
+	if (events.includes('updated')) {
+		const records = await searchAll.call(this, endpoint, {
+			LastModifiedDateMin: updatedMark.timestamp,
+		});
+		const result = collectNewRecords(records, updatedMark, (record) =>
+			getRecordTime(record, LAST_MODIFIED_DATE_FIELDS),
+		);
+		staticData.updated = result.mark;
+		output.push(
+			...result.records
+				.filter((record) => !createdIds.has(getRecordId(record)))
+				.map((record) => ({ event: 'updated', resource, data: record })),
+		);
+	} else {
+		staticData.updated = { timestamp: now, ids: [] };
+	}
+
+	return output;
+}
+
+async function pollEngagement(this: IPollFunctions, basePath: string): Promise<IDataObject[]> {
+	const events = this.getNodeParameter('engagementEvents', []) as CronoEngagementEvent[];
+	const endpoint = `${basePath}/Activities/search`;
+	const staticData = this.getWorkflowStaticData('node');
+
+	if (this.getMode() === 'manual') {
+		const records = await searchSample.call(this, endpoint, { Include: ENGAGEMENT_INCLUDES });
+		return records.map((activity) => toEngagementEvent(events[0] ?? 'replied', activity));
+	}
+
+	const now = new Date().toISOString();
+	const answeredMark = getHighWaterMark(staticData, 'answered', now);
+	const trackedMark = getHighWaterMark(staticData, 'tracked', now);
+	const clickedMark = getHighWaterMark(staticData, 'clicked', now);
+
+	if (!staticData.answered || !staticData.tracked) {
+		staticData.answered = answeredMark;
+		staticData.tracked = trackedMark;
+		staticData.clicked = clickedMark;
+		return [];
+	}
+
+	const output: IDataObject[] = [];
+
+	if (events.includes('replied') || events.includes('linkedinAccepted')) {
+		const records = await searchAll.call(this, endpoint, {
+			FirstAnswerDatetimeMin: answeredMark.timestamp,
+			Include: ENGAGEMENT_INCLUDES,
+		});
+		const result = collectNewRecords(records, answeredMark, (record) =>
+			getRecordTime(record, FIRST_ANSWER_DATE_FIELDS),
+		);
+		staticData.answered = result.mark;
+		for (const activity of result.records) {
+			const event = classifyAnswer(activity);
+			if (events.includes(event)) {
+				output.push(toEngagementEvent(event, activity));
+			}
+		}
+	} else {
+		staticData.answered = { timestamp: now, ids: [] };
+	}
+
+	if (events.includes('opened')) {
+		const records = await searchAll.call(this, endpoint, {
+			FirstTrackDatetimeMin: trackedMark.timestamp,
+			Include: ENGAGEMENT_INCLUDES,
+		});
+		const result = collectNewRecords(records, trackedMark, (record) =>
+			getRecordTime(record, FIRST_TRACK_DATE_FIELDS),
+		);
+		staticData.tracked = result.mark;
+		output.push(...result.records.map((activity) => toEngagementEvent('opened', activity)));
+	} else {
+		staticData.tracked = { timestamp: now, ids: [] };
+	}
+
+	// A click updates the activity's email log, so every click since the mark is on an
+	// activity modified since then. Clicks keep their own mark, independent of the first open.
+	if (events.includes('clicked')) {
+		const records = await searchAll.call(this, endpoint, {
+			LastModifiedDateMin: clickedMark.timestamp,
+			Include: ENGAGEMENT_INCLUDES,
+		});
+		const result = collectNewRecords(records, clickedMark, getClickTime);
+		staticData.clicked = result.mark;
+		output.push(...result.records.map((activity) => toEngagementEvent('clicked', activity)));
+	} else {
+		staticData.clicked = { timestamp: now, ids: [] };
+	}
+
+	return output;
+}
+
+// Polling triggers cannot run as AI tools.
+// eslint-disable-next-line @n8n/community-nodes/node-usable-as-tool
+export class CronoPublicApiTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Crono Trigger',
+		name: 'cronoPublicApiTrigger',
+		icon: 'file:/crono.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle:
+			'={{$parameter["triggerOn"] === "engagement" ? "Prospect engagement" : $parameter["resource"] + ": " + $parameter["events"].join(", ")}}',
+		description: 'Starts the workflow when Crono records change or prospects engage',
+		defaults: {
+			name: 'Crono Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionTypes.Main],
+		credentials: [
+			{
+				name: 'cronoPublicApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'API Version',
+				name: 'apiVersion',
+				type: 'string',
+				default: '1',
+				description: 'Crono Public API version number',
+			},
+			{
+				displayName: 'Trigger On',
+				name: 'triggerOn',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Record Created or Updated',
+						value: 'recordChanges',
+						description: 'Watch companies, contacts, deals, notes or activities for changes',
+					},
+					{
+						name: 'Prospect Engagement',
+						value: 'engagement',
+						description: 'Watch activity logs for replies, opens, clicks and accepted invitations',
+					},
+				],
+				default: 'recordChanges',
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: { triggerOn: ['recordChanges'] },
+				},
+				options: [
+					{ name: 'Activity', value: 'activity' },
+					{ name: 'Company', value: 'company' },
+					{ name: 'Contact', value: 'contact' },
+					{ name: 'Deal', value: 'deal' },
+					{ name: 'Note', value: 'note' },
+				],
+				default: 'company',
+			},
+			{
+				displayName: 'Events',
+				name: 'events',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Created',
+						value: 'created',
+						description: 'Emit records created since the last poll',
+					},
+					{
+						name: 'Updated',
+						value: 'updated',
+						description: 'Emit existing records modified since the last poll',
+					},
+				],
+				default: ['created', 'updated'],
+				required: true,
+				displayOptions: {
+					show: { triggerOn: ['recordChanges'] },
+				},
+			},
+			{
+				displayName: 'Events',
+				name: 'engagementEvents',
+				type: 'multiOptions',
+				options: [
+					{
+						name: 'Email Clicked',
+						value: 'clicked',
+						description: 'A prospect clicked a tracked link',
+					},
+					{
+						name: 'Email Opened',
+						value: 'opened',
+						description: 'A prospect opened a tracked email',
+					},
+					{
+						name: 'LinkedIn Invitation Accepted',
+						value: 'linkedinAccepted',
+						description: 'A prospect accepted a LinkedIn connection request',
+					},
+					{
+						name: 'Replied',
+						value: 'replied',
+						description: 'A prospect replied to an email or LinkedIn message',
+					},
+				],
+				default: ['replied', 'opened', 'clicked', 'linkedinAccepted'],
+				required: true,
+				displayOptions: {
+					show: { triggerOn: ['engagement'] },
+				},
+			},
+		],
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const triggerOn = this.getNodeParameter('triggerOn', 'recordChanges') as string;
+		const apiVersion = this.getNodeParameter('apiVersion', '1') as string;
+		const basePath = `/api/v${apiVersion}`;
+
+		const output =
+			triggerOn === 'engagement'
+				? await pollEngagement.call(this, basePath)
+				: await pollRecordChanges.call(this, basePath);
+
+		if (!output.length) {
+			return null;
+		}
+
+		return [this.helpers.returnJsonArray(output)];
+	}
+}
@@ -0,0 +1,643 @@
+import type {
+	FieldType,
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	INode,
+	INodePropertyOptions,
+	IPollFunctions,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
+
+export interface CronoRequestOptions {
+	maxRetries: number;
+	retryDelay: number;
+	maxRetryDelay: number;
+	maxRetryWait: number;
+	retryNonIdempotent: boolean;
+	onAttempt?: () => void;
+	throttle?: () => Promise<void>;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: CronoRequestOptions = {
+	maxRetries: 3,
+	retryDelay: 1000,
+	maxRetryDelay: 30000,
+	maxRetryWait: 120000,
+	retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRY_STATUS_CODES = [429, 502, 503, 504];
+const RETRY_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'EPIPE',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+];
+
+export async function cronoApiRequest(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	qs: IDataObject = {},
+	body: IDataObject | undefined = undefined,
+	requestOptions: CronoRequestOptions = DEFAULT_REQUEST_OPTIONS,
+) {
+	const credentials = await this.getCredentials('cronoPublicApi');
+	const baseUrl = (credentials.baseUrl as string) || 'https://ext.crono.one';
+
+	const options: IHttpRequestOptions = {
+		method,
+		url: `${baseUrl}${endpoint}`,
+		json: true,
+	};
+
+	if (qs && Object.keys(qs).length) {
+		options.qs = qs;
+	}
+
+	if (body && Object.keys(body).length) {
+		options.body = body;
+	}
+
+	const canRetry =
+		requestOptions.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method.toUpperCase());
+	let waited = 0;
+
+	for (let attempt = 0; ; attempt++) {
+		requestOptions.onAttempt?.();
+		await requestOptions.throttle?.();
+
+		try {
+			return await this.helpers.httpRequestWithAuthentication.call(this, 'cronoPublicApi', options);
+		} catch (error) {
+			const delay =
+				attempt < requestOptions.maxRetries
+					? getRetryDelay(error as JsonObject, attempt, requestOptions, canRetry)
+					: undefined;
+
+			if (delay === undefined) {
+				throw getCronoApiError(this.getNode(), error as JsonObject);
+			}
+
+			if (waited + delay > requestOptions.maxRetryWait) {
+				const apiError = getCronoApiError(this.getNode(), error as JsonObject);
+				apiError.description = `The server asked to wait ${Math.ceil(delay / 1000)} seconds before retrying, which exceeds the total retry wait of ${Math.round(requestOptions.maxRetryWait / 1000)} seconds`;
+				throw apiError;
+			}
+
+			waited += delay;
+			await sleep(delay);
+		}
+	}
+}
+
+// The request helper may already have wrapped the HTTP error; use the original so the
+// Crono payload and response headers are still available.
+function getErrorSource(error: JsonObject) {
+	return (error instanceof NodeApiError && error.cause ? error.cause : error) as JsonObject;
+}
+
+function getHeader(headers: JsonObject, name: string) {
+	const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+	const value = key === undefined ? undefined : headers[key];
+	return Array.isArray(value) ? value[0] : value;
+}
+
+// Milliseconds the server asked us to wait, from `Retry-After` (seconds or HTTP date)
+// or a rate-limit reset header (seconds from now or epoch seconds).
+function getServerRetryDelay(headers: JsonObject) {
+	const retryAfter = getHeader(headers, 'retry-after');
+	if (retryAfter !== undefined && retryAfter !== null) {
+		const seconds = Number(retryAfter);
+		if (!Number.isNaN(seconds)) {
+			return Math.max(seconds, 0) * 1000;
+		}
+
+		const date = Date.parse(String(retryAfter));
+		if (!Number.isNaN(date)) {
+			return Math.max(date - Date.now(), 0);
+		}
+	}
+
+	for (const name of ['x-ratelimit-reset', 'ratelimit-reset', 'x-rate-limit-reset']) {
+		const value = getHeader(headers, name);
+		const reset = Number(value);
+		if (value === undefined || value === null || Number.isNaN(reset)) {
+			continue;
+		}
+
+		return reset > 1e9 ? Math.max(reset * 1000 - Date.now(), 0) : Math.max(reset, 0) * 1000;
+	}
+
+	return undefined;
+}
+
+// A 429 means the server did not process the request, so it is retried whatever the method.
+// The server's own delay is honored as is; only the computed backoff is capped.
+function getRetryDelay(
+	error: JsonObject,
+	attempt: number,
+	requestOptions: CronoRequestOptions,
+	canRetry: boolean,
+) {
+	const source = getErrorSource(error);
+	const response = (source.response ?? {}) as JsonObject;
+	const status = Number(response.status ?? response.statusCode ?? error.httpCode);
+	const code = source.code ?? (source.cause as JsonObject | undefined)?.code;
+
+	if (
+		status !== 429 &&
+		(!canRetry ||
+			(!RETRY_STATUS_CODES.includes(status) && !RETRY_ERROR_CODES.includes(String(code))))
+	) {
+		return undefined;
+	}
+
+	const serverDelay = getServerRetryDelay((response.headers ?? {}) as JsonObject);
+	if (serverDelay !== undefined) {
+		return serverDelay;
+	}
+
+	const backoff = Math.min(requestOptions.retryDelay * 2 ** attempt, requestOptions.maxRetryDelay);
+	return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+// Token bucket shared by every request of an execution; waiting callers are served in order.
+export function createRateLimiter(requestsPerSecond: number) {
+	const capacity = Math.max(requestsPerSecond, 1);
+	let tokens = capacity;
+	let updatedAt = Date.now();
+	let queue: Promise<void> = Promise.resolve();
+
+	const refill = () => {
+		const now = Date.now();
+		tokens = Math.min(capacity, tokens + ((now - updatedAt) / 1000) * requestsPerSecond);
+		updatedAt = now;
+	};
+
+	return async () => {
+		if (requestsPerSecond <= 0) {
+			return;
+		}
+
+		queue = queue.then(async () => {
+			refill();
+			if (tokens < 1) {
+				await sleep(((1 - tokens) / requestsPerSecond) * 1000);
+				refill();
+			}
+			tokens -= 1;
+		});
+
+		return await queue;
+	};
+}
+
+export async function runConcurrently<T>(
+	count: number,
+	concurrency: number,
+	task: (index: number) => Promise<T>,
+): Promise<T[]> {
+	const results: T[] = new Array(count);
+	let next = 0;
+	let failed = false;
+
+	const worker = async () => {
+		while (!failed && next < count) {
+			const index = next++;
+			try {
+				results[index] = await task(index);
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+		}
+	};
+
+	const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, count));
+	await Promise.all(Array.from({ length: workers }, async () => await worker()));
+
+	return results;
+}
+
+// Crono reports validation failures either as ASP.NET problem details
+// (`errors: { Field: ['message'] }`) or as a list of `{ field, message }` entries.
+function getCronoErrorMessages(errors: unknown): string[] {
+	if (Array.isArray(errors)) {
+		return errors.map((entry) => {
+			if (!entry || typeof entry !== 'object') {
+				return String(entry);
+			}
+
+			const field = getRecordValue(entry as IDataObject, [
+				'field',
+				'propertyName',
+				'property',
+				'key',
+			]);
+			const message = getRecordValue(entry as IDataObject, [
+				'message',
+				'errorMessage',
+				'description',
+				'error',
+			]);
+			const text = message === undefined ? JSON.stringify(entry) : String(message);
+			return field ? `${String(field)}: ${text}` : text;
+		});
+	}
+
+	if (errors && typeof errors === 'object') {
+		return Object.entries(errors as IDataObject).flatMap(([field, messages]) =>
+			(Array.isArray(messages) ? messages : [messages]).map(
+				(message) => `${field}: ${typeof message === 'string' ? message : JSON.stringify(message)}`,
+			),
+		);
+	}
+
+	return typeof errors === 'string' && errors ? [errors] : [];
+}
+
+function getCronoApiError(node: INode, error: JsonObject) {
+	const source = getErrorSource(error);
+	const response = (source.response ?? {}) as JsonObject;
+	const payload = response.data ?? response.body ?? source.error;
+	const status = response.status ?? response.statusCode ?? error.httpCode;
+
+	let message: string | undefined;
+	let description: string | undefined;
+
+	if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+		const title = getRecordValue(payload as IDataObject, ['title', 'message', 'error']);
+		const messages = getCronoErrorMessages(
+			getRecordValue(payload as IDataObject, ['errors', 'validationErrors']),
+		);
+
+		if (typeof title === 'string' && title) {
+			message = title;
+		}
+
+		if (messages.length) {
+			description = messages.join('\n');
+		}
+	} else if (typeof payload === 'string' && payload) {
+		description = payload;
+	}
+
+	return new NodeApiError(node, source, {
+		message,
+		description,
+		httpCode: status === undefined || status === null ? undefined : String(status),
+	});
+}
+
+// Where an operation expects its page window: `limit`/`offset` query string (getAll),
+// a nested `Pagination` block (most searches) or flat `Limit`/`Offset` (task search).
+export type PaginationStyle = 'query' | 'body' | 'flat';
+
+const PAGE_SIZE = 100;
+const MAX_PAGES = 1000;
+
+const RESULT_ARRAY_KEYS = [
+	'data',
+	'items',
+	'results',
+	'accounts',
+	'prospects',
+	'opportunities',
+	'notes',
+	'tasks',
+	'activities',
+	'lists',
+	'strategies',
+	'details',
+	'users',
+	'imports',
+];
+
+const NON_RESULT_ARRAY_KEYS = ['errors', 'error', 'warnings', 'messages', 'validationerrors'];
+
+function getPaginationOffset(style: PaginationStyle, qs: IDataObject, body: IDataObject): number {
+	if (style === 'query') {
+		return Number(qs.offset) || 0;
+	}
+
+	if (style === 'flat') {
+		return Number(body.Offset) || 0;
+	}
+
+	return Number((body.Pagination as IDataObject | undefined)?.Offset) || 0;
+}
+
+function setPagination(
+	style: PaginationStyle,
+	qs: IDataObject,
+	body: IDataObject,
+	limit: number,
+	offset: number,
+) {
+	if (style === 'query') {
+		qs.limit = limit;
+		qs.offset = offset;
+	} else if (style === 'flat') {
+		body.Limit = limit;
+		body.Offset = offset;
+	} else {
+		body.Pagination = {
+			...(body.Pagination as IDataObject | undefined),
+			Limit: limit,
+			Offset: offset,
+		};
+	}
+}
+
+type ResultArrayLocation = {
+	parent: IDataObject;
+	key: string;
+};
+
+function findResultArray(response: IDataObject, depth = 0): ResultArrayLocation | undefined {
+	for (const key of RESULT_ARRAY_KEYS) {
+		const match = Object.keys(response).find((name) => name.toLowerCase() === key);
+		if (match && Array.isArray(response[match])) {
+			return { parent: response, key: match };
+		}
+	}
+
+	const nested = response.data;
+	if (depth < 1 && nested && typeof nested === 'object' && !Array.isArray(nested)) {
+		const location = findResultArray(nested as IDataObject, depth + 1);
+		if (location) {
+			return location;
+		}
+	}
+
+	const fallback = Object.keys(response).find(
+		(name) => Array.isArray(response[name]) && !NON_RESULT_ARRAY_KEYS.includes(name.toLowerCase()),
+	);
+	return fallback ? { parent: response, key: fallback } : undefined;
+}
+
+export async function cronoApiRequestAllItems(
+	this: IExecuteFunctions | ILoadOptionsFunctions | IPollFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	qs: IDataObject,
+	body: IDataObject | undefined,
+	style: PaginationStyle,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions = DEFAULT_REQUEST_OPTIONS,
+): Promise<IDataObject | IDataObject[]> {
+	const query: IDataObject = { ...qs };
+	const requestBody: IDataObject = { ...body };
+	const records: IDataObject[] = [];
+	let offset = getPaginationOffset(style, query, requestBody);
+	let envelope: IDataObject | undefined;
+	let location: ResultArrayLocation | undefined;
+
+	for (let page = 0; ; page++) {
+		if (page >= MAX_PAGES) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Stopped after ${MAX_PAGES} pages of ${PAGE_SIZE} results. Narrow the filters or disable "Return All".`,
+				{ itemIndex },
+			);
+		}
+
+		setPagination(style, query, requestBody, PAGE_SIZE, offset);
+		const response = await cronoApiRequest.call(
+			this,
+			method,
+			endpoint,
+			query,
+			style === 'query' ? body : requestBody,
+			requestOptions,
+		);
+
+		let pageRecords: IDataObject[];
+		if (Array.isArray(response)) {
+			pageRecords = response as IDataObject[];
+		} else {
+			envelope = response as IDataObject;
+			location = findResultArray(envelope);
+			if (!location) {
+				return envelope;
+			}
+			pageRecords = location.parent[location.key] as IDataObject[];
+		}
+
+		records.push(...pageRecords);
+		if (pageRecords.length < PAGE_SIZE) {
+			break;
+		}
+		offset += PAGE_SIZE;
+	}
+
+	if (!envelope || !location) {
+		return records;
+	}
+
+	location.parent[location.key] = records;
+	return envelope;
+}
+
+export function getResponseRecords(responseData: unknown): IDataObject[] | undefined {
+	if (Array.isArray(responseData)) {
+		return responseData as IDataObject[];
+	}
+
+	if (!responseData || typeof responseData !== 'object') {
+		return undefined;
+	}
+
+	const location = findResultArray(responseData as IDataObject);
+	return location ? (location.parent[location.key] as IDataObject[]) : undefined;
+}
+
+export function getRecordValue(record: IDataObject, fields: string[]): unknown {
+	const keys = Object.keys(record);
+	for (const field of fields) {
+		const key = keys.find((name) => name.toLowerCase() === field.toLowerCase());
+		if (key !== undefined && record[key] !== undefined && record[key] !== null) {
+			return record[key];
+		}
+	}
+	return undefined;
+}
+
+export const IMPORT_FINISHED_STATUSES = ['Completed', 'CompletedWithErrors', 'StopCompleted'];
+
+export function getResponseRecord(response: unknown): IDataObject {
+	const record = response && typeof response === 'object' ? (response as IDataObject) : {};
+	const data = getRecordValue(record, ['data']);
+	return data && typeof data === 'object' && !Array.isArray(data) ? (data as IDataObject) : record;
+}
+
+export function getImportStatus(record: IDataObject): string {
+	return String(getRecordValue(record, ['status', 'statusType', 'importStatus']) ?? '');
+}
+
+export async function waitForImport(
+	this: IExecuteFunctions,
+	basePath: string,
+	importId: unknown,
+	statuses: string[],
+	timeout: number,
+	pollInterval: number,
+	itemIndex: number,
+	requestOptions: CronoRequestOptions = DEFAULT_REQUEST_OPTIONS,
+): Promise<IDataObject> {
+	const deadline = Date.now() + timeout * 1000;
+	const expected = statuses.map((status) => status.toLowerCase());
+
+	for (;;) {
+		const response = await cronoApiRequest.call(
+			this,
+			'GET',
+			`${basePath}/Import/${String(importId)}`,
+			{},
+			undefined,
+			requestOptions,
+		);
+		const record = getResponseRecord(response);
+		const status = getImportStatus(record);
+		if (expected.includes(status.toLowerCase())) {
+			return record;
+		}
+
+		if (Date.now() + pollInterval * 1000 > deadline) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Import ${String(importId)} did not finish within ${timeout} seconds`,
+				{ itemIndex, description: `Last status: ${status || 'unknown'}` },
+			);
+		}
+
+		await sleep(pollInterval * 1000);
+	}
+}
+
+export async function getPipelines(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	basePath: string,
+	requestOptions: CronoRequestOptions = DEFAULT_REQUEST_OPTIONS,
+): Promise<IDataObject[]> {
+	const response = await cronoApiRequest.call(
+		this,
+		'GET',
+		`${basePath}/Pipelines`,
+		{},
+		undefined,
+		requestOptions,
+	);
+	return getResponseRecords(response) ?? [];
+}
+
+export function getPipelineValue(pipeline: IDataObject): string {
+	return String(getRecordValue(pipeline, ['externalId', 'id', 'name']) ?? '');
+}
+
+export function getPipelineStages(pipeline: IDataObject): IDataObject[] {
+	const stages = getRecordValue(pipeline, ['stages', 'pipelineStages']);
+	return Array.isArray(stages) ? (stages as IDataObject[]) : [];
+}
+
+export function getStageValue(stage: IDataObject | string): string {
+	if (typeof stage !== 'object') {
+		return String(stage);
+	}
+	return String(getRecordValue(stage, ['externalId', 'id', 'stage', 'name']) ?? '');
+}
+
+export function getStageLabel(stage: IDataObject | string): string {
+	if (typeof stage !== 'object') {
+		return String(stage);
+	}
+	return String(getRecordValue(stage, ['label', 'name', 'stage']) ?? getStageValue(stage));
+}
+
+export async function getExternalProperties(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	basePath: string,
+	tableType: string,
+	requestOptions: CronoRequestOptions = DEFAULT_REQUEST_OPTIONS,
+): Promise<IDataObject[]> {
+	const response = await cronoApiRequest.call(
+		this,
+		'POST',
+		`${basePath}/ExternalProperties/search`,
+		{},
+		{ TableType: tableType },
+		requestOptions,
+	);
+	return getResponseRecords(response) ?? [];
+}
+
+export function getExternalPropertyId(property: IDataObject): string {
+	return String(getRecordValue(property, ['id', 'externalPropertyId']) ?? '');
+}
+
+export function getExternalPropertyName(property: IDataObject): string {
+	return String(
+		getRecordValue(property, ['label', 'name', 'publicName']) ?? getExternalPropertyId(property),
+	);
+}
+
+export function getExternalPropertyOptions(property: IDataObject): INodePropertyOptions[] {
+	const options = getRecordValue(property, ['options', 'values', 'externalPropertyOptions']);
+	if (!Array.isArray(options)) {
+		return [];
+	}
+
+	return (options as Array<IDataObject | string>).map((option) => {
+		if (typeof option !== 'object') {
+			return { name: String(option), value: String(option) };
+		}
+		const value = String(getRecordValue(option, ['value', 'id']) ?? '');
+		return { name: String(getRecordValue(option, ['label', 'name', 'value']) ?? value), value };
+	});
+}
+
+export function getExternalPropertyFieldType(property: IDataObject): FieldType {
+	if (
+		getRecordValue(property, ['isTag', 'isStatus']) ||
+		getExternalPropertyOptions(property).length
+	) {
+		return 'options';
+	}
+
+	const valueType = String(getRecordValue(property, ['valueType', 'type', 'dataType']) ?? '');
+	if (/int|decimal|number|double|float|currency/i.test(valueType)) {
+		return 'number';
+	}
+	if (/date|time/i.test(valueType)) {
+		return 'dateTime';
+	}
+	if (/bool/i.test(valueType)) {
+		return 'boolean';
+	}
+	return 'string';
+}
+
+export type ExternalPropertyCache = Map<string, Promise<IDataObject[]>>;
+
+export async function getCachedExternalProperties(
+	this: IExecuteFunctions,
+	cache: ExternalPropertyCache,
+	basePath: string,
+	tableType: string,
+	requestOptions?: CronoRequestOptions,
+): Promise<IDataObject[]> {
+	let properties = cache.get(tableType);
+	if (!properties) {
+		properties = getExternalProperties.call(this, basePath, tableType, requestOptions);
+		cache.set(tableType, properties);
+	}
+	return await properties;
+}
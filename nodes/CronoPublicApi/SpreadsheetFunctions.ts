@@ -0,0 +1,537 @@
+import type { IDataObject } from 'n8n-workflow';
+
+// Community nodes cannot ship dependencies, so CSV decoding and the small part of the
+// XLSX format needed for imports (zip, deflate, shared strings, first sheet) live here.
+
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f' + '\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+function codesToString(codes: number[]) {
+	let result = '';
+	for (let start = 0; start < codes.length; start += 8192) {
+		result += String.fromCharCode(...codes.slice(start, start + 8192));
+	}
+	return result;
+}
+
+function isUtf8(bytes: Uint8Array) {
+	for (let index = 0; index < bytes.length; ) {
+		const byte = bytes[index];
+		let extra = 0;
+		if (byte < 0x80) {
+			extra = 0;
+		} else if (byte >= 0xc2 && byte < 0xe0) {
+			extra = 1;
+		} else if (byte >= 0xe0 && byte < 0xf0) {
+			extra = 2;
+		} else if (byte >= 0xf0 && byte < 0xf5) {
+			extra = 3;
+		} else {
+			return false;
+		}
+		for (let offset = 1; offset <= extra; offset++) {
+			if (index + offset >= bytes.length || (bytes[index + offset] & 0xc0) !== 0x80) {
+				return false;
+			}
+		}
+		index += extra + 1;
+	}
+	return true;
+}
+
+function decodeUtf8(bytes: Uint8Array, start = 0) {
+	const codes: number[] = [];
+	for (let index = start; index < bytes.length; ) {
+		const byte = bytes[index];
+		let code = byte;
+		let extra = 0;
+		if (byte >= 0xf0) {
+			code = byte & 0x07;
+			extra = 3;
+		} else if (byte >= 0xe0) {
+			code = byte & 0x0f;
+			extra = 2;
+		} else if (byte >= 0xc0) {
+			code = byte & 0x1f;
+			extra = 1;
+		}
+		for (let offset = 1; offset <= extra; offset++) {
+			code = (code << 6) | (bytes[index + offset] & 0x3f);
+		}
+		index += extra + 1;
+		if (code > 0xffff) {
+			code -= 0x10000;
+			codes.push(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+		} else {
+			codes.push(code);
+		}
+	}
+	return codesToString(codes);
+}
+
+function decodeUtf16(bytes: Uint8Array, littleEndian: boolean) {
+	const codes: number[] = [];
+	for (let index = 2; index + 1 < bytes.length; index += 2) {
+		codes.push(
+			littleEndian
+				? bytes[index] | (bytes[index + 1] << 8)
+				: (bytes[index] << 8) | bytes[index + 1],
+		);
+	}
+	return codesToString(codes);
+}
+
+// Honors a byte order mark, otherwise falls back from UTF-8 to Windows-1252, the usual
+// encoding of spreadsheets exported by Excel.
+export function decodeText(bytes: Uint8Array): string {
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+		return decodeUtf8(bytes, 3);
+	}
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+		return decodeUtf16(bytes, true);
+	}
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+		return decodeUtf16(bytes, false);
+	}
+	if (isUtf8(bytes)) {
+		return decodeUtf8(bytes);
+	}
+
+	const codes = Array.from(bytes, (byte) =>
+		byte >= 0x80 && byte < 0xa0 ? CP1252_HIGH.charCodeAt(byte - 0x80) : byte,
+	);
+	return codesToString(codes);
+}
+
+export function detectDelimiter(text: string): string {
+	const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+	let best = ',';
+	let bestCount = 0;
+	for (const delimiter of [',', ';', '\t', '|']) {
+		let count = 0;
+		let quoted = false;
+		for (const character of firstLine) {
+			if (character === '"') {
+				quoted = !quoted;
+			} else if (character === delimiter && !quoted) {
+				count++;
+			}
+		}
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+export function parseDelimitedText(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+
+	for (let index = 0; index < text.length; index++) {
+		const character = text[index];
+		if (quoted) {
+			if (character === '"' && text[index + 1] === '"') {
+				field += '"';
+				index++;
+			} else if (character === '"') {
+				quoted = false;
+			} else {
+				field += character;
+			}
+		} else if (character === '"' && field === '') {
+			quoted = true;
+		} else if (character === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (character === '\n' || character === '\r') {
+			if (character === '\r' && text[index + 1] === '\n') {
+				index++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += character;
+		}
+	}
+
+	if (field !== '' || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+const LENGTH_BASE = [
+	3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+	163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+	0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+];
+const DISTANCE_BASE = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+	3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+	0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+type Huffman = {
+	counts: number[];
+	symbols: number[];
+};
+
+function buildHuffman(lengths: number[]): Huffman {
+	const counts = new Array<number>(16).fill(0);
+	for (const length of lengths) {
+		counts[length]++;
+	}
+	counts[0] = 0;
+
+	const offsets = new Array<number>(16).fill(0);
+	for (let length = 1; length < 16; length++) {
+		offsets[length] = offsets[length - 1] + counts[length - 1];
+	}
+
+	const symbols = new Array<number>(lengths.length).fill(0);
+	lengths.forEach((length, symbol) => {
+		if (length) {
+			symbols[offsets[length]++] = symbol;
+		}
+	});
+
+	return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+	Array.from({ length: 288 }, (_, symbol) => {
+		if (symbol < 144) return 8;
+		if (symbol < 256) return 9;
+		if (symbol < 280) return 7;
+		return 8;
+	}),
+);
+const FIXED_DISTANCES = buildHuffman(new Array<number>(30).fill(5));
+
+// Raw DEFLATE (RFC 1951) decoder, as used by zip entries.
+export function inflateRaw(input: Uint8Array): Uint8Array {
+	const output: number[] = [];
+	let position = 0;
+	let bitBuffer = 0;
+	let bitCount = 0;
+
+	const readBits = (count: number) => {
+		while (bitCount < count) {
+			if (position >= input.length) {
+				throw new Error('Unexpected end of compressed data');
+			}
+			bitBuffer |= input[position++] << bitCount;
+			bitCount += 8;
+		}
+		const value = bitBuffer & ((1 << count) - 1);
+		bitBuffer >>>= count;
+		bitCount -= count;
+		return value;
+	};
+
+	const decodeSymbol = (huffman: Huffman) => {
+		let code = 0;
+		let first = 0;
+		let index = 0;
+		for (let length = 1; length < 16; length++) {
+			code |= readBits(1);
+			const count = huffman.counts[length];
+			if (code - first < count) {
+				return huffman.symbols[index + code - first];
+			}
+			index += count;
+			first = (first + count) << 1;
+			code <<= 1;
+		}
+		throw new Error('Invalid compressed data');
+	};
+
+	const readDynamicTables = (): [Huffman, Huffman] => {
+		const literalCount = readBits(5) + 257;
+		const distanceCount = readBits(5) + 1;
+		const codeLengthCount = readBits(4) + 4;
+		const codeLengths = new Array<number>(19).fill(0);
+		for (let index = 0; index < codeLengthCount; index++) {
+			codeLengths[CODE_LENGTH_ORDER[index]] = readBits(3);
+		}
+
+		const codeLengthHuffman = buildHuffman(codeLengths);
+		const lengths: number[] = [];
+		while (lengths.length < literalCount + distanceCount) {
+			const symbol = decodeSymbol(codeLengthHuffman);
+			if (symbol < 16) {
+				lengths.push(symbol);
+				continue;
+			}
+
+			let value = 0;
+			let repeat: number;
+			if (symbol === 16) {
+				if (!lengths.length) {
+					throw new Error('Invalid compressed data');
+				}
+				value = lengths[lengths.length - 1];
+				repeat = 3 + readBits(2);
+			} else if (symbol === 17) {
+				repeat = 3 + readBits(3);
+			} else {
+				repeat = 11 + readBits(7);
+			}
+			for (let index = 0; index < repeat; index++) {
+				lengths.push(value);
+			}
+		}
+
+		return [
+			buildHuffman(lengths.slice(0, literalCount)),
+			buildHuffman(lengths.slice(literalCount)),
+		];
+	};
+
+	let isFinal = 0;
+	do {
+		isFinal = readBits(1);
+		const type = readBits(2);
+
+		if (type === 0) {
+			bitBuffer = 0;
+			bitCount = 0;
+			const length = input[position] | (input[position + 1] << 8);
+			position += 4;
+			for (let index = 0; index < length; index++) {
+				output.push(input[position + index]);
+			}
+			position += length;
+			continue;
+		}
+
+		if (type === 3) {
+			throw new Error('Invalid compressed data');
+		}
+
+		const [literals, distances] =
+			type === 1 ? [FIXED_LITERALS, FIXED_DISTANCES] : readDynamicTables();
+		for (;;) {
+			const symbol = decodeSymbol(literals);
+			if (symbol < 256) {
+				output.push(symbol);
+				continue;
+			}
+			if (symbol === 256) {
+				break;
+			}
+
+			const lengthIndex = symbol - 257;
+			const length = LENGTH_BASE[lengthIndex] + readBits(LENGTH_EXTRA[lengthIndex]);
+			const distanceIndex = decodeSymbol(distances);
+			const distance = DISTANCE_BASE[distanceIndex] + readBits(DISTANCE_EXTRA[distanceIndex]);
+			for (let index = 0; index < length; index++) {
+				output.push(output[output.length - distance]);
+			}
+		}
+	} while (!isFinal);
+
+	return Uint8Array.from(output);
+}
+
+function readUint16(bytes: Uint8Array, offset: number) {
+	return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint32(bytes: Uint8Array, offset: number) {
+	return (readUint16(bytes, offset) | (readUint16(bytes, offset + 2) << 16)) >>> 0;
+}
+
+function readZipEntries(bytes: Uint8Array): Map<string, () => Uint8Array> {
+	let end = bytes.length - 22;
+	while (end >= 0 && readUint32(bytes, end) !== 0x06054b50) {
+		end--;
+	}
+	if (end < 0) {
+		throw new Error('The file is not a valid XLSX workbook');
+	}
+
+	const entries = new Map<string, () => Uint8Array>();
+	const entryCount = readUint16(bytes, end + 10);
+	let offset = readUint32(bytes, end + 16);
+
+	for (let entry = 0; entry < entryCount; entry++) {
+		if (readUint32(bytes, offset) !== 0x02014b50) {
+			throw new Error('The file is not a valid XLSX workbook');
+		}
+		const method = readUint16(bytes, offset + 10);
+		const compressedSize = readUint32(bytes, offset + 20);
+		const nameLength = readUint16(bytes, offset + 28);
+		const extraLength = readUint16(bytes, offset + 30);
+		const commentLength = readUint16(bytes, offset + 32);
+		const localOffset = readUint32(bytes, offset + 42);
+		const name = decodeUtf8(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+		entries.set(name, () => {
+			const dataStart =
+				localOffset +
+				30 +
+				readUint16(bytes, localOffset + 26) +
+				readUint16(bytes, localOffset + 28);
+			const data = bytes.subarray(dataStart, dataStart + compressedSize);
+			if (method === 0) {
+				return data;
+			}
+			if (method === 8) {
+				return inflateRaw(data);
+			}
+			throw new Error(`Unsupported compression method ${method} in XLSX workbook`);
+		});
+
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+function decodeXml(value: string) {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+		const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+		if (entity[0] !== '#') {
+			return named[entity.toLowerCase()];
+		}
+		const code =
+			entity[1].toLowerCase() === 'x'
+				? parseInt(entity.slice(2), 16)
+				: parseInt(entity.slice(1), 10);
+		return String.fromCodePoint(code);
+	});
+}
+
+function getXmlAttribute(tag: string, name: string) {
+	const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+	return match ? decodeXml(match[1]) : undefined;
+}
+
+function getXmlText(xml: string) {
+	const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+	return Array.from(withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) =>
+		decodeXml(match[1]),
+	).join('');
+}
+
+function getColumnIndex(reference: string) {
+	let index = 0;
+	for (const letter of reference.replace(/\d+$/, '').toUpperCase()) {
+		index = index * 26 + letter.charCodeAt(0) - 64;
+	}
+	return index - 1;
+}
+
+function getFirstSheetPath(entries: Map<string, () => Uint8Array>) {
+	const workbook = entries.get('xl/workbook.xml');
+	const relationships = entries.get('xl/_rels/workbook.xml.rels');
+	if (workbook && relationships) {
+		const sheet = /<sheet\b[^>]*>/.exec(decodeUtf8(workbook()));
+		const relationshipId = sheet ? getXmlAttribute(sheet[0], 'r:id') : undefined;
+		for (const [tag] of decodeUtf8(relationships()).matchAll(/<Relationship\b[^>]*>/g)) {
+			const target = getXmlAttribute(tag, 'Target');
+			if (target && getXmlAttribute(tag, 'Id') === relationshipId) {
+				return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+			}
+		}
+	}
+	return 'xl/worksheets/sheet1.xml';
+}
+
+export function parseXlsx(bytes: Uint8Array): string[][] {
+	const entries = readZipEntries(bytes);
+	const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+	const sharedStrings = sharedStringsEntry
+		? Array.from(
+				decodeUtf8(sharedStringsEntry()).matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g),
+				(match) => getXmlText(match[1]),
+			)
+		: [];
+
+	const sheet = entries.get(getFirstSheetPath(entries));
+	if (!sheet) {
+		throw new Error('The XLSX workbook does not contain any worksheet');
+	}
+
+	// Excel leaves empty rows out of the sheet, so rows are placed by their `r` number.
+	const rows: string[][] = [];
+	const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+	for (const [, rowAttributes, rowXml = ''] of decodeUtf8(sheet()).matchAll(rowPattern)) {
+		const rowNumber = Number(getXmlAttribute(` ${rowAttributes}`, 'r'));
+		while (Number.isInteger(rowNumber) && rows.length < rowNumber - 1) {
+			rows.push([]);
+		}
+		const row: string[] = [];
+		const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+		for (const [, attributes, cellXml = ''] of rowXml.matchAll(cellPattern)) {
+			const reference = getXmlAttribute(` ${attributes}`, 'r');
+			const column = reference ? getColumnIndex(reference) : row.length;
+			const type = getXmlAttribute(` ${attributes}`, 't');
+			const value = /<v>([\s\S]*?)<\/v>/.exec(cellXml)?.[1];
+			let text = value === undefined ? '' : decodeXml(value);
+			if (type === 's') {
+				text = sharedStrings[Number(value)] ?? '';
+			} else if (type === 'inlineStr') {
+				text = getXmlText(cellXml);
+			} else if (type === 'b') {
+				text = value === '1' ? 'true' : 'false';
+			}
+			while (row.length < column) {
+				row.push('');
+			}
+			row[column] = text;
+		}
+		rows.push(row);
+	}
+
+	return rows;
+}
+
+// XLSX stores dates as days since 1899-12-30 unless the cell is text. Serials before
+// March 1900 are off by a day because of Excel's 1900 leap year bug; imports never use them.
+export function excelSerialToDate(serial: number): string {
+	return new Date(Math.round((serial - 25569) * 86400000)).toISOString();
+}
+
+function isXlsx(bytes: Uint8Array) {
+	return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+// Returns one object per data row, keyed by the header row. Blank rows are kept so that
+// record indexes match the file's data rows; they map to no import field and are dropped there.
+export function parseSpreadsheet(bytes: Uint8Array): IDataObject[] {
+	let rows: string[][];
+	if (isXlsx(bytes)) {
+		rows = parseXlsx(bytes);
+	} else {
+		const text = decodeText(bytes);
+		rows = parseDelimitedText(text, detectDelimiter(text));
+	}
+
+	const headerIndex = rows.findIndex((row) => row.some((value) => value.trim() !== ''));
+	const header = headerIndex === -1 ? [] : rows[headerIndex];
+	const dataRows = headerIndex === -1 ? [] : rows.slice(headerIndex + 1);
+	const columns = header.map((name) => name.trim());
+	return dataRows.map((row) => {
+		const record: IDataObject = {};
+		columns.forEach((column, index) => {
+			if (column) {
+				record[column] = row[index] ?? '';
+			}
+		});
+		return record;
+	});
+}
@@ -0,0 +1,162 @@
+// Crono renders note descriptions as HTML. These helpers convert plain text and the common
+// Markdown subset produced by LLMs and note takers to HTML, and note HTML back to text.
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: '&',
+	apos: "'",
+	gt: '>',
+	lt: '<',
+	nbsp: ' ',
+	quot: '"',
+};
+
+export function escapeHtml(value: string) {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+function decodeHtmlEntities(value: string) {
+	return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code[0] === '#') {
+			const number =
+				code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+			return Number.isNaN(number) ? entity : String.fromCodePoint(number);
+		}
+		return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+	});
+}
+
+function splitParagraphs(value: string) {
+	return value
+		.replace(/\r\n?/g, '\n')
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.trim())
+		.filter((paragraph) => paragraph);
+}
+
+export function textToHtml(value: string): string {
+	return splitParagraphs(value)
+		.map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+		.join('');
+}
+
+function markdownInline(value: string) {
+	const codeSpans: string[] = [];
+	let html = escapeHtml(value).replace(/`([^`]+)`/g, (_, code: string) => {
+		codeSpans.push(`<code>${code}</code>`);
+		return `\uE000${codeSpans.length - 1}\uE000`;
+	});
+
+	html = html
+		.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, text: string, url: string) =>
+			/^(https?:|mailto:)/i.test(url) ? `<a href="${url}">${text}</a>` : text,
+		)
+		.replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+		.replace(/(^|\W)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1<strong>$2</strong>')
+		.replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+		.replace(/(^|\W)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>')
+		.replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>');
+
+	return html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => codeSpans[Number(index)]);
+}
+
+type MarkdownList = { tag: 'ol' | 'ul'; items: string[] };
+
+export function markdownToHtml(value: string): string {
+	const blocks: string[] = [];
+	let paragraph: string[] = [];
+	let quote: string[] = [];
+	let list: MarkdownList | undefined;
+	let code: string[] | undefined;
+
+	const flush = () => {
+		if (paragraph.length) {
+			blocks.push(`<p>${paragraph.map(markdownInline).join('<br>')}</p>`);
+			paragraph = [];
+		}
+		if (quote.length) {
+			blocks.push(`<blockquote>${markdownToHtml(quote.join('\n'))}</blockquote>`);
+			quote = [];
+		}
+		if (list) {
+			const items = list.items.map((item) => `<li>${markdownInline(item)}</li>`).join('');
+			blocks.push(`<${list.tag}>${items}</${list.tag}>`);
+			list = undefined;
+		}
+	};
+
+	for (const line of value.replace(/\r\n?/g, '\n').split('\n')) {
+		if (code) {
+			if (/^\s*```/.test(line)) {
+				blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+				code = undefined;
+			} else {
+				code.push(line);
+			}
+			continue;
+		}
+
+		const heading = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+		const bullet = /^\s*[-*+]\s+(.*)$/.exec(line);
+		const numbered = /^\s*\d+[.)]\s+(.*)$/.exec(line);
+		const quoted = /^\s*>\s?(.*)$/.exec(line);
+
+		if (/^\s*```/.test(line)) {
+			flush();
+			code = [];
+		} else if (!line.trim()) {
+			flush();
+		} else if (heading) {
+			flush();
+			const level = heading[1].length;
+			blocks.push(`<h${level}>${markdownInline(heading[2])}</h${level}>`);
+		} else if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+			flush();
+			blocks.push('<hr>');
+		} else if (quoted) {
+			if (!quote.length) {
+				flush();
+			}
+			quote.push(quoted[1]);
+		} else if (bullet || numbered) {
+			const tag = bullet ? 'ul' : 'ol';
+			if (list?.tag !== tag) {
+				flush();
+				list = { tag, items: [] };
+			}
+			list?.items.push((bullet ?? numbered)?.[1] ?? '');
+		} else if (list && /^\s+/.test(line)) {
+			list.items[list.items.length - 1] += ` ${line.trim()}`;
+		} else {
+			if (list || quote.length) {
+				flush();
+			}
+			paragraph.push(line.trim());
+		}
+	}
+
+	if (code) {
+		blocks.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+	}
+	flush();
+	return blocks.join('');
+}
+
+export function htmlToText(value: string): string {
+	return decodeHtmlEntities(
+		value
+			.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+			.replace(/<br\s*\/?>/gi, '\n')
+			.replace(/<li\b[^>]*>/gi, '\n- ')
+			.replace(/<\/(p|div|h[1-6]|tr|blockquote|pre|ul|ol|table)>/gi, '\n\n')
+			.replace(/<hr\b[^>]*>/gi, '\n\n')
+			.replace(/<[^>]+>/g, ''),
+	)
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
@@ -0,0 +1,150 @@
+import type { IDataObject, IPollFunctions } from 'n8n-workflow';
+
+import { CronoPublicApiTrigger } from '../CronoPublicApiTrigger.node';
+
+const T0 = '2025-03-01T10:00:00.000Z';
+const T1 = '2025-03-01T10:05:00.000Z';
+const T2 = '2025-03-01T10:10:00.000Z';
+const BEFORE = '2025-03-01T09:59:59.000Z';
+
+function createContext(parameters: IDataObject, staticData: IDataObject, ...responses: unknown[]) {
+	const sent: IDataObject[] = [];
+	const request = jest.fn();
+	for (const response of responses) {
+		request.mockImplementationOnce(async (_: string, options: IDataObject) => {
+			sent.push(JSON.parse(JSON.stringify(options)) as IDataObject);
+			return response;
+		});
+	}
+
+	const context = {
+		getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+		getWorkflowStaticData: () => staticData,
+		getMode: () => 'trigger',
+		getCredentials: async () => ({ baseUrl: 'https://crono.test' }),
+		getNode: () => ({ id: 'crono', name: 'Crono Trigger', parameters }),
+		helpers: {
+			httpRequestWithAuthentication: request,
+			returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })),
+		},
+	} as unknown as IPollFunctions;
+
+	return { context, sent };
+}
+
+async function poll(context: IPollFunctions) {
+	const output = await new CronoPublicApiTrigger().poll.call(context);
+	return output ? output[0].map((item) => item.json) : null;
+}
+
+describe('CronoPublicApiTrigger record changes', () => {
+	it('stores high-water marks on the first poll without emitting', async () => {
+		const staticData: IDataObject = {};
+		const { context, sent } = createContext(
+			{ resource: 'company', events: ['created'] },
+			staticData,
+		);
+
+		await expect(poll(context)).resolves.toBeNull();
+		expect(sent).toHaveLength(0);
+		expect(staticData.created).toEqual({ timestamp: expect.any(String), ids: [] });
+		expect(staticData.updated).toEqual(staticData.created);
+	});
+
+	it('skips records already seen at the mark and moves the mark to the newest record', async () => {
+		const staticData: IDataObject = {
+			created: { timestamp: T0, ids: ['1'] },
+			updated: { timestamp: T0, ids: [] },
+		};
+		const { context, sent } = createContext(
+			{ resource: 'company', events: ['created'] },
+			staticData,
+			[
+				{ objectId: '1', createdDate: T0 },
+				{ objectId: '2', createdDate: T0 },
+				{ objectId: '3', createdDate: T1 },
+				{ objectId: '4', createdDate: BEFORE },
+				{ objectId: '5' },
+				{ objectId: '6', createdDate: T1 },
+			],
+		);
+
+		await expect(poll(context)).resolves.toEqual([
+			{ event: 'created', resource: 'company', data: { objectId: '2', createdDate: T0 } },
+			{ event: 'created', resource: 'company', data: { objectId: '3', createdDate: T1 } },
+			{ event: 'created', resource: 'company', data: { objectId: '6', createdDate: T1 } },
+		]);
+		expect(sent[0].url).toBe('https://crono.test/api/v1/Accounts/search');
+		expect((sent[0].body as IDataObject).CreatedDateMin).toBe(T0);
+		expect(staticData.created).toEqual({ timestamp: T1, ids: ['3', '6'] });
+	});
+
+	it('keeps the mark when nothing new arrived', async () => {
+		const staticData: IDataObject = {
+			created: { timestamp: T1, ids: ['3', '6'] },
+			updated: { timestamp: T1, ids: [] },
+		};
+		const { context } = createContext({ resource: 'company', events: ['created'] }, staticData, [
+			{ objectId: '3', createdDate: T1 },
+			{ objectId: '6', createdDate: T1 },
+		]);
+
+		await expect(poll(context)).resolves.toBeNull();
+		expect(staticData.created).toEqual({ timestamp: T1, ids: ['3', '6'] });
+	});
+
+	it('compares updates against their own mark and skips records created in the same poll', async () => {
+		const staticData: IDataObject = {
+			created: { timestamp: T2, ids: [] },
+			updated: { timestamp: T0, ids: [] },
+		};
+		const { context, sent } = createContext(
+			{ resource: 'contact', events: ['created', 'updated'] },
+			staticData,
+			[{ objectId: '7', createdDate: T2 }],
+			[
+				{ objectId: '7', lastModifiedDate: T2 },
+				{ objectId: '8', lastModifiedDate: T1 },
+			],
+		);
+
+		await expect(poll(context)).resolves.toEqual([
+			{ event: 'created', resource: 'contact', data: { objectId: '7', createdDate: T2 } },
+			{ event: 'updated', resource: 'contact', data: { objectId: '8', lastModifiedDate: T1 } },
+		]);
+		expect((sent[1].body as IDataObject).LastModifiedDateMin).toBe(T0);
+		expect(staticData.updated).toEqual({ timestamp: T2, ids: ['7'] });
+	});
+});
+
+describe('CronoPublicApiTrigger engagement', () => {
+	it('emits clicks newer than the click mark from the email log', async () => {
+		const staticData: IDataObject = {
+			answered: { timestamp: T0, ids: [] },
+			tracked: { timestamp: T0, ids: [] },
+			clicked: { timestamp: T1, ids: [] },
+		};
+		const clicked = {
+			id: 10,
+			emailLog: { events: [{ type: 'Click', date: T2 }] },
+			prospect: { objectId: 'p1' },
+		};
+		const stale = { id: 11, emailLog: { lastClickDatetime: T0 } };
+		const { context } = createContext(
+			{ triggerOn: 'engagement', engagementEvents: ['clicked'] },
+			staticData,
+			[clicked, stale],
+		);
+
+		await expect(poll(context)).resolves.toEqual([
+			{
+				event: 'clicked',
+				activity: clicked,
+				prospect: { objectId: 'p1' },
+				account: null,
+				opportunity: null,
+			},
+		]);
+		expect(staticData.clicked).toEqual({ timestamp: T2, ids: ['10'] });
+	});
+});
@@ -0,0 +1,230 @@
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { NodeApiError, sleep } from 'n8n-workflow';
+
+import type { CronoRequestOptions } from '../GenericFunctions';
+import {
+	cronoApiRequest,
+	cronoApiRequestAllItems,
+	DEFAULT_REQUEST_OPTIONS,
+} from '../GenericFunctions';
+
+jest.mock('n8n-workflow', () => ({
+	...jest.requireActual('n8n-workflow'),
+	sleep: jest.fn(async () => {}),
+}));
+
+const sleepMock = sleep as jest.MockedFunction<typeof sleep>;
+
+function httpError(status: number, headers: IDataObject = {}, data: IDataObject = {}) {
+	return Object.assign(new Error(`Request failed with status code ${status}`), {
+		response: { status, headers, data },
+	});
+}
+
+function createContext(...responses: unknown[]) {
+	// Pagination mutates the same query and body between pages, so each request is copied.
+	const sent: IDataObject[] = [];
+	const request = jest.fn();
+	for (const response of responses) {
+		request.mockImplementationOnce(async (_: string, options: IDataObject) => {
+			sent.push(JSON.parse(JSON.stringify(options)) as IDataObject);
+			if (response instanceof Error) {
+				throw response;
+			}
+			return response;
+		});
+	}
+
+	const context = {
+		getCredentials: async () => ({ baseUrl: 'https://crono.test' }),
+		getNode: () => ({
+			id: 'crono',
+			name: 'Crono',
+			type: 'n8n-nodes-crono-public-api.cronoPublicApi',
+			typeVersion: 1,
+			position: [0, 0],
+			parameters: {},
+		}),
+		helpers: { httpRequestWithAuthentication: request },
+	} as unknown as IExecuteFunctions;
+
+	return { context, request, sent };
+}
+
+beforeEach(() => {
+	sleepMock.mockClear();
+});
+
+describe('cronoApiRequest retries', () => {
+	it('waits for the Retry-After seconds before retrying', async () => {
+		const { context, request } = createContext(httpError(503, { 'Retry-After': '2' }), {
+			ok: true,
+		});
+
+		await expect(cronoApiRequest.call(context, 'GET', '/api/v1/Accounts')).resolves.toEqual({
+			ok: true,
+		});
+		expect(request).toHaveBeenCalledTimes(2);
+		expect(sleepMock).toHaveBeenCalledWith(2000);
+	});
+
+	it('reads Retry-After as an HTTP date', async () => {
+		const retryAt = new Date(Date.now() + 5000).toUTCString();
+		const { context } = createContext(httpError(429, { 'retry-after': retryAt }), {});
+
+		await cronoApiRequest.call(context, 'GET', '/api/v1/Accounts');
+
+		const delay = sleepMock.mock.calls[0][0];
+		expect(delay).toBeGreaterThan(3000);
+		expect(delay).toBeLessThanOrEqual(5000);
+	});
+
+	it('reads rate-limit reset headers in seconds and epoch seconds', async () => {
+		const resetAt = Math.floor(Date.now() / 1000) + 10;
+		const { context } = createContext(
+			httpError(429, { 'X-RateLimit-Reset': '3' }),
+			httpError(429, { 'ratelimit-reset': String(resetAt) }),
+			{},
+		);
+
+		await cronoApiRequest.call(context, 'GET', '/api/v1/Accounts');
+
+		expect(sleepMock.mock.calls[0][0]).toBe(3000);
+		expect(sleepMock.mock.calls[1][0]).toBeGreaterThan(8000);
+		expect(sleepMock.mock.calls[1][0]).toBeLessThanOrEqual(10000);
+	});
+
+	it('honours a Retry-After longer than the backoff cap', async () => {
+		const { context } = createContext(httpError(429, { 'Retry-After': '60' }), {});
+		const requestOptions: CronoRequestOptions = { ...DEFAULT_REQUEST_OPTIONS, maxRetryDelay: 1000 };
+
+		await cronoApiRequest.call(context, 'GET', '/api/v1/Accounts', {}, undefined, requestOptions);
+
+		expect(sleepMock).toHaveBeenCalledWith(60000);
+	});
+
+	it('fails with the requested delay once it exceeds the total retry wait', async () => {
+		const { context, request } = createContext(httpError(429, { 'Retry-After': '600' }));
+
+		const error = await cronoApiRequest
+			.call(context, 'GET', '/api/v1/Accounts')
+			.catch((caught: NodeApiError) => caught);
+
+		expect(error).toBeInstanceOf(NodeApiError);
+		expect((error as NodeApiError).description).toBe(
+			'The server asked to wait 600 seconds before retrying, which exceeds the total retry wait of 120 seconds',
+		);
+		expect(request).toHaveBeenCalledTimes(1);
+		expect(sleepMock).not.toHaveBeenCalled();
+	});
+
+	it('retries a rate-limited POST but not a failed one', async () => {
+		const limited = createContext(httpError(429, { 'Retry-After': '1' }), { created: true });
+		await expect(
+			cronoApiRequest.call(limited.context, 'POST', '/api/v1/Accounts', {}, { name: 'Acme' }),
+		).resolves.toEqual({ created: true });
+		expect(limited.request).toHaveBeenCalledTimes(2);
+
+		const unavailable = createContext(httpError(503), { created: true });
+		await expect(
+			cronoApiRequest.call(unavailable.context, 'POST', '/api/v1/Accounts', {}, { name: 'Acme' }),
+		).rejects.toThrow(NodeApiError);
+		expect(unavailable.request).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives up after the configured number of retries', async () => {
+		const { context, request } = createContext(httpError(502), httpError(502), httpError(502));
+		const requestOptions: CronoRequestOptions = { ...DEFAULT_REQUEST_OPTIONS, maxRetries: 2 };
+
+		await expect(
+			cronoApiRequest.call(context, 'GET', '/api/v1/Accounts', {}, undefined, requestOptions),
+		).rejects.toThrow(NodeApiError);
+		expect(request).toHaveBeenCalledTimes(3);
+	});
+
+	it('does not retry client errors', async () => {
+		const { context, request } = createContext(
+			httpError(400, {}, { title: 'Validation failed', errors: { Name: ['Name is required'] } }),
+		);
+
+		const error = await cronoApiRequest
+			.call(context, 'GET', '/api/v1/Accounts')
+			.catch((caught: NodeApiError) => caught);
+
+		expect(error.message).toBe('Validation failed');
+		expect(error.description).toBe('Name: Name is required');
+		expect(request).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('cronoApiRequestAllItems pagination', () => {
+	const records = (count: number, start = 0) =>
+		Array.from({ length: count }, (_, index) => ({ id: start + index }));
+
+	it('pages the query string for the query style', async () => {
+		const { context, sent } = createContext(records(100), records(20, 100));
+
+		const result = await cronoApiRequestAllItems.call(
+			context,
+			'GET',
+			'/api/v1/Users',
+			{ onlyActive: true },
+			undefined,
+			'query',
+			0,
+		);
+
+		expect(result).toHaveLength(120);
+		expect(sent[0].qs).toEqual({ onlyActive: true, limit: 100, offset: 0 });
+		expect(sent[1].qs).toEqual({ onlyActive: true, limit: 100, offset: 100 });
+	});
+
+	it('pages a nested Pagination block and keeps the response envelope', async () => {
+		const { context, sent } = createContext(
+			{ data: { accounts: records(100) }, isSuccess: true },
+			{ data: { accounts: records(1, 100) }, isSuccess: true },
+		);
+
+		const result = await cronoApiRequestAllItems.call(
+			context,
+			'POST',
+			'/api/v1/Accounts/search',
+			{},
+			{ Name: 'Acme', Pagination: { Offset: 0 } },
+			'body',
+			0,
+		);
+
+		expect(result).toEqual({ data: { accounts: records(101) }, isSuccess: true });
+		expect(sent[1].body).toEqual({
+			Name: 'Acme',
+			Pagination: { Offset: 100, Limit: 100 },
+		});
+	});
+
+	it('pages flat Limit and Offset fields from the requested offset', async () => {
+		const { context, sent } = createContext({ tasks: records(3) });
+
+		const result = await cronoApiRequestAllItems.call(
+			context,
+			'POST',
+			'/api/v1/Tasks/search',
+			{},
+			{ Offset: 40 },
+			'flat',
+			0,
+		);
+
+		expect(result).toEqual({ tasks: records(3) });
+		expect(sent[0].body).toEqual({ Offset: 40, Limit: 100 });
+		expect(sent).toHaveLength(1);
+	});
+
+	it('returns responses without a result array as they are', async () => {
+		const { context } = createContext({ total: 4 });
+
+		await expect(
+			cronoApiRequestAllItems.call(context, 'POST', '/api/v1/Accounts/count', {}, {}, 'body', 0),
+		).resolves.toEqual({ total: 4 });
+	});
+});
@@ -0,0 +1,179 @@
+import {
+	decodeText,
+	detectDelimiter,
+	excelSerialToDate,
+	inflateRaw,
+	parseDelimitedText,
+	parseSpreadsheet,
+	parseXlsx,
+} from '../SpreadsheetFunctions';
+
+function toBytes(text: string) {
+	return Uint8Array.from(text, (character) => character.charCodeAt(0));
+}
+
+// Builds a ZIP archive with uncompressed (stored) entries.
+function createZip(files: Record<string, string>) {
+	const local: number[] = [];
+	const central: number[] = [];
+	const uint16 = (target: number[], value: number) => target.push(value & 0xff, value >>> 8);
+	const uint32 = (target: number[], value: number) => {
+		uint16(target, value & 0xffff);
+		uint16(target, value >>> 16);
+	};
+
+	for (const [name, content] of Object.entries(files)) {
+		const nameBytes = toBytes(name);
+		const data = toBytes(content);
+		const offset = local.length;
+
+		uint32(local, 0x04034b50);
+		local.push(...new Array<number>(22).fill(0));
+		uint16(local, nameBytes.length);
+		uint16(local, 0);
+		local.push(...nameBytes, ...data);
+
+		uint32(central, 0x02014b50);
+		central.push(...new Array<number>(6).fill(0));
+		uint16(central, 0);
+		central.push(...new Array<number>(8).fill(0));
+		uint32(central, data.length);
+		uint32(central, data.length);
+		uint16(central, nameBytes.length);
+		central.push(...new Array<number>(12).fill(0));
+		uint32(central, offset);
+		central.push(...nameBytes);
+	}
+
+	const end: number[] = [];
+	uint32(end, 0x06054b50);
+	end.push(0, 0, 0, 0);
+	uint16(end, Object.keys(files).length);
+	uint16(end, Object.keys(files).length);
+	uint32(end, central.length);
+	uint32(end, local.length);
+	uint16(end, 0);
+
+	return Uint8Array.from([...local, ...central, ...end]);
+}
+
+const SHEET_ROWS =
+	'<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+	'<row r="3"><c r="A3" t="inlineStr"><is><t>Acme &amp; Co</t></is></c><c r="C3" t="b"><v>1</v></c></row>' +
+	'<row r="4"><c r="B4"><v>45292</v></c></row>';
+
+function createWorkbook() {
+	return createZip({
+		'xl/sharedStrings.xml':
+			'<sst><si><t>Name</t></si><si><t>Created</t></si><si><t>Active</t></si></sst>',
+		'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${SHEET_ROWS}</sheetData></worksheet>`,
+	});
+}
+
+describe('parseXlsx', () => {
+	it('reads shared, inline and boolean cells into their columns', () => {
+		const rows = parseXlsx(createWorkbook());
+
+		expect(rows[0]).toEqual(['Name', 'Created', 'Active']);
+		expect(rows[2]).toEqual(['Acme & Co', '', 'true']);
+		expect(rows[3]).toEqual(['', '45292']);
+	});
+
+	it('keeps rows that Excel left out of the sheet as empty rows', () => {
+		const rows = parseXlsx(createWorkbook());
+
+		expect(rows).toHaveLength(4);
+		expect(rows[1]).toEqual([]);
+	});
+
+	it('follows the workbook relationship to the first sheet', () => {
+		const bytes = createZip({
+			'xl/workbook.xml':
+				'<workbook><sheets><sheet name="Data" sheetId="1" r:id="rId2"/></sheets></workbook>',
+			'xl/_rels/workbook.xml.rels':
+				'<Relationships><Relationship Id="rId2" Target="worksheets/data.xml"/></Relationships>',
+			'xl/worksheets/data.xml':
+				'<worksheet><sheetData><row r="1"><c r="A1"><v>7</v></c></row></sheetData></worksheet>',
+		});
+
+		expect(parseXlsx(bytes)).toEqual([['7']]);
+	});
+
+	it('rejects files that are not ZIP archives', () => {
+		expect(() => parseXlsx(toBytes('PK not really a zip'))).toThrow('not a valid XLSX workbook');
+	});
+});
+
+describe('inflateRaw', () => {
+	it('inflates fixed Huffman blocks', () => {
+		expect(inflateRaw(Uint8Array.from([0xcb, 0x48, 0xcd, 0xc9, 0xc9, 0x07, 0x00]))).toEqual(
+			toBytes('hello'),
+		);
+	});
+
+	it('copies stored blocks', () => {
+		expect(inflateRaw(Uint8Array.from([0x01, 0x02, 0x00, 0xfd, 0xff, 0x68, 0x69]))).toEqual(
+			toBytes('hi'),
+		);
+	});
+});
+
+describe('parseDelimitedText', () => {
+	it('handles quoted delimiters, escaped quotes and line breaks', () => {
+		expect(parseDelimitedText('name,note\r\n"Acme, Inc","said ""hi""\nthen left"\n', ',')).toEqual([
+			['name', 'note'],
+			['Acme, Inc', 'said "hi"\nthen left'],
+		]);
+	});
+
+	it('keeps a last line without a trailing newline', () => {
+		expect(parseDelimitedText('a;b\n1;', ';')).toEqual([
+			['a', 'b'],
+			['1', ''],
+		]);
+	});
+});
+
+describe('detectDelimiter', () => {
+	it('picks the most frequent delimiter outside quotes', () => {
+		expect(detectDelimiter('"a,b";c;d\n1,2,3,4,5')).toBe(';');
+		expect(detectDelimiter('a\tb\tc')).toBe('\t');
+		expect(detectDelimiter('single')).toBe(',');
+	});
+});
+
+describe('decodeText', () => {
+	it('strips a UTF-8 byte order mark', () => {
+		expect(decodeText(Uint8Array.from([0xef, 0xbb, 0xbf, 0x61, 0xc3, 0xa9]))).toBe('aé');
+	});
+
+	it('falls back to Windows-1252 for invalid UTF-8', () => {
+		expect(decodeText(Uint8Array.from([0x80, 0x20, 0xe9]))).toBe('€ é');
+	});
+});
+
+describe('parseSpreadsheet', () => {
+	it('maps CSV rows to objects keyed by the header', () => {
+		expect(parseSpreadsheet(toBytes(' Name ;Email\nAcme;hi@acme.com\n\nBeta'))).toEqual([
+			{ Name: 'Acme', Email: 'hi@acme.com' },
+			{ Name: '', Email: '' },
+			{ Name: 'Beta', Email: '' },
+		]);
+	});
+
+	it('keeps skipped XLSX rows so record indexes match the sheet', () => {
+		expect(parseSpreadsheet(createWorkbook())).toEqual([
+			{ Name: '', Created: '', Active: '' },
+			{ Name: 'Acme & Co', Created: '', Active: 'true' },
+			{ Name: '', Created: '45292', Active: '' },
+		]);
+	});
+});
+
+describe('excelSerialToDate', () => {
+	it('converts day serials to ISO dates', () => {
+		expect(excelSerialToDate(45292)).toBe('2024-01-01T00:00:00.000Z');
+		expect(excelSerialToDate(45292.5)).toBe('2024-01-01T12:00:00.000Z');
+		expect(excelSerialToDate(25569)).toBe('1970-01-01T00:00:00.000Z');
+	});
+});
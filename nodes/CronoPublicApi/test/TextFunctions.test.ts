@@ -0,0 +1,59 @@
+import { htmlToText, markdownToHtml, textToHtml } from '../TextFunctions';
+
+describe('markdownToHtml', () => {
+	it('converts headings, emphasis and links', () => {
+		expect(
+			markdownToHtml('## Call recap\n**Budget** is *approved*, see [deck](https://crono.one)'),
+		).toBe(
+			'<h2>Call recap</h2><p><strong>Budget</strong> is <em>approved</em>, see <a href="https://crono.one">deck</a></p>',
+		);
+	});
+
+	it('groups bullet and numbered lines into lists', () => {
+		expect(markdownToHtml('- one\n- two\n\n1. first\n2) second')).toBe(
+			'<ul><li>one</li><li>two</li></ul><ol><li>first</li><li>second</li></ol>',
+		);
+	});
+
+	it('keeps code blocks and code spans verbatim', () => {
+		expect(markdownToHtml('Run `a *b*`\n```\n<x> **y**\n```')).toBe(
+			'<p>Run <code>a *b*</code></p><pre><code>&lt;x&gt; **y**</code></pre>',
+		);
+	});
+
+	it('escapes HTML and drops links that are not http or mailto', () => {
+		expect(markdownToHtml('<b>hi</b> [click](javascript:void)')).toBe(
+			'<p>&lt;b&gt;hi&lt;/b&gt; click</p>',
+		);
+	});
+
+	it('renders quotes and rules', () => {
+		expect(markdownToHtml('> quoted\n\n---')).toBe('<blockquote><p>quoted</p></blockquote><hr>');
+	});
+});
+
+describe('textToHtml', () => {
+	it('splits paragraphs and keeps line breaks', () => {
+		expect(textToHtml('Hello\nthere\n\n<World>')).toBe('<p>Hello<br>there</p><p>&lt;World&gt;</p>');
+	});
+});
+
+describe('htmlToText', () => {
+	it('turns block tags into line breaks and decodes entities', () => {
+		expect(htmlToText('<h1>Title</h1><p>Tom &amp; Jerry&#39;s&nbsp;note<br>next</p>')).toBe(
+			"Title\n\nTom & Jerry's note\nnext",
+		);
+	});
+
+	it('lists items and drops scripts and styles', () => {
+		expect(
+			htmlToText('<style>p{}</style><ul><li>one</li><li>two</li></ul><script>x()</script>'),
+		).toBe('- one\n- two');
+	});
+
+	it('round-trips converted Markdown', () => {
+		expect(htmlToText(markdownToHtml('# Next steps\n- Send **proposal**\n- Book demo'))).toBe(
+			'Next steps\n\n- Send proposal\n- Book demo',
+		);
+	});
+});